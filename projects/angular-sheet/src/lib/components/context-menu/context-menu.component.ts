@@ -3,6 +3,7 @@ import { CommonModule } from '@angular/common';
 import { StateService } from '../../services/state.service';
 import { ClipboardService } from '../../services/clipboard.service';
 import { DataService } from '../../services/data.service';
+import { normalizeRange } from '../../utils/sheet.utils';
 
 @Component({
   selector: 'context-menu',
@@ -27,6 +28,13 @@ export class ContextMenuComponent {
     this.clipboardService.copySelection(sheet);
   }
 
+  public onCopyVisibleClick(): void {
+    const sheet = this.dataService.getSheetData();
+    if (!sheet) return;
+    this.hideContextMenu();
+    this.clipboardService.copySelection(sheet, { visibleOnly: true });
+  }
+
   public onPasteClick(): void {
     const sheet = this.dataService.getSheetData();
     if (!sheet) return;
@@ -34,4 +42,108 @@ export class ContextMenuComponent {
     this.clipboardService.pasteSelection(sheet);
   }
 
+  // As many rows/columns are inserted as the active selection spans
+  public onInsertRowsClick(position: 'above' | 'below'): void {
+    const { start, end } = normalizeRange(this.stateService.selection);
+    this.hideContextMenu();
+    if (start.row < 0) return;
+    this.dataService.insertRows(position === 'above' ? start.row : end.row + 1, end.row - start.row + 1);
+  }
+
+  public onInsertColumnsClick(position: 'left' | 'right'): void {
+    const { start, end } = normalizeRange(this.stateService.selection);
+    this.hideContextMenu();
+    if (start.col < 0) return;
+    this.dataService.insertColumns(position === 'left' ? start.col : end.col + 1, end.col - start.col + 1);
+  }
+
+  // Outline groups are made from (or removed over) the rows/columns of the active selection
+  public onGroupClick(axis: 'row' | 'column', group: boolean): void {
+    const { start, end } = normalizeRange(this.stateService.selection);
+    this.hideContextMenu();
+    if (start.row < 0) return;
+    if (axis === 'row' && group) {
+      this.dataService.groupRows(start.row, end.row);
+    } else if (axis === 'row') {
+      this.dataService.ungroupRows(start.row, end.row);
+    } else if (group) {
+      this.dataService.groupColumns(start.col, end.col);
+    } else {
+      this.dataService.ungroupColumns(start.col, end.col);
+    }
+  }
+
+  // Deletes every row touched by any selected range
+  public onDeleteRowsClick(): void {
+    this.hideContextMenu();
+    this.applyToSpans('row', (index, count) => this.dataService.deleteRows(index, count), 'Delete rows');
+  }
+
+  public onDeleteColumnsClick(): void {
+    this.hideContextMenu();
+    this.applyToSpans('col', (index, count) => this.dataService.deleteColumns(index, count), 'Delete columns');
+  }
+
+  public onHideRowsClick(): void {
+    this.hideContextMenu();
+    this.applyToSpans('row', (index, count) => this.dataService.hideRows(index, count), 'Hide rows');
+  }
+
+  // Shows the hidden rows within the selection (select the rows around them to unhide them)
+  public onUnhideRowsClick(): void {
+    this.hideContextMenu();
+    this.applyToSpans('row', (index, count) => this.dataService.unhideRows(index, count), 'Unhide rows');
+  }
+
+  public onHideColumnsClick(): void {
+    this.hideContextMenu();
+    this.applyToSpans('col', (index, count) => this.dataService.hideColumns(index, count), 'Hide columns');
+  }
+
+  public onUnhideColumnsClick(): void {
+    this.hideContextMenu();
+    this.applyToSpans('col', (index, count) => this.dataService.unhideColumns(index, count), 'Unhide columns');
+  }
+
+  // "Delete row" or "Delete rows", depending on the selection
+  public get selectedRowCount(): number {
+    return this.getSelectedSpans('row').reduce((total, [, count]) => total + count, 0);
+  }
+
+  public get selectedColumnCount(): number {
+    return this.getSelectedSpans('col').reduce((total, [, count]) => total + count, 0);
+  }
+
+  /**
+   * Runs `action` on every run of selected rows/columns as one undo step. The
+   * last run goes first, so deleting doesn't move the ones still to do.
+   */
+  private applyToSpans(key: 'row' | 'col', action: (index: number, count: number) => void, label: string): void {
+    const spans = this.getSelectedSpans(key);
+    this.dataService.transaction(
+      () => spans.reverse().forEach(([index, count]) => action(index, count)),
+      spans.length > 1 ? label : undefined
+    );
+  }
+
+  // Runs of consecutive selected rows/columns as [index, count], in order
+  private getSelectedSpans(key: 'row' | 'col'): [number, number][] {
+    const selected = new Set<number>();
+    this.stateService.selections.forEach(selection => {
+      const { start, end } = normalizeRange(selection);
+      for (let i = Math.max(start[key], 0); i <= end[key]; i++) selected.add(i);
+    });
+
+    const spans: [number, number][] = [];
+    [...selected].sort((a, b) => a - b).forEach(i => {
+      const last = spans[spans.length - 1];
+      if (last && last[0] + last[1] === i) {
+        last[1]++;
+      } else {
+        spans.push([i, 1]);
+      }
+    });
+    return spans;
+  }
+
 }
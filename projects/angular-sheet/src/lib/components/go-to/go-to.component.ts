@@ -0,0 +1,71 @@
+import { Component, ElementRef, ViewChild, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NamedRange } from '../../models/sheet.model';
+import { StateService } from '../../services/state.service';
+import { DataService } from '../../services/data.service';
+import { EventService } from '../../services/event.service';
+import { isInSheet, getNamedRange, normalizeRange, rangeToA1 } from '../../utils/sheet.utils';
+import { isValidRangeName, parseRangeReference } from '../../utils/formula.utils';
+
+/**
+ * Go to box (Ctrl+G / F5): jumps to a cell, range or named range. Like Excel's
+ * name box, entering a name that doesn't exist yet names the current selection.
+ */
+@Component({
+  selector: 'go-to',
+  templateUrl: './go-to.component.html',
+  styleUrls: ['./go-to.component.scss'],
+  imports: [CommonModule],
+  standalone: true
+})
+export class GoToComponent {
+  public stateService = inject(StateService);
+  private dataService = inject(DataService);
+  private eventService = inject(EventService);
+
+  public error = '';
+  public rangeToA1 = rangeToA1;
+
+  @ViewChild('goToInput') set goToInput(input: ElementRef<HTMLInputElement> | undefined) {
+    input?.nativeElement.focus();
+  }
+
+  get namedRanges(): NamedRange[] {
+    return this.dataService.getSheetData()?.namedRanges ?? [];
+  }
+
+  public close(): void {
+    this.error = '';
+    this.stateService.setGoToVisible(false);
+  }
+
+  public submit(text: string): void {
+    const sheet = this.dataService.getSheetData();
+    const target = text.trim();
+    if (!sheet || !target) return;
+
+    const range = getNamedRange(sheet, target)?.range ?? parseRangeReference(target);
+    if (range) {
+      const { end } = normalizeRange(range);
+      if (!isInSheet(sheet, end.row, end.col)) {
+        this.error = `${target} is outside the sheet`;
+        return;
+      }
+      this.eventService.goTo(range, sheet);
+      this.close();
+      return;
+    }
+
+    if (isValidRangeName(target) && this.stateService.selection.start.row >= 0) {
+      this.dataService.defineName(target, normalizeRange(this.stateService.selection));
+      this.close();
+      return;
+    }
+    this.error = `"${target}" is not a cell, range or name`;
+  }
+
+  public deleteName(named: NamedRange, event: MouseEvent): void {
+    event.stopPropagation();
+    this.dataService.deleteName(named.name);
+  }
+}
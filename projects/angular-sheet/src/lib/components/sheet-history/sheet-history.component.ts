@@ -0,0 +1,35 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Observable, of } from 'rxjs';
+import { SheetComponent } from '../sheet/sheet.component';
+import { HistoryState } from '../../services/undo-redo.service';
+
+/**
+ * Lists the undo/redo history of a sheet and lets the user jump to any point in it.
+ *
+ * <sheet #mySheet [sheetData]="data"></sheet>
+ * <sheet-history [sheet]="mySheet"></sheet-history>
+ */
+@Component({
+  selector: 'sheet-history',
+  templateUrl: './sheet-history.component.html',
+  styleUrls: ['./sheet-history.component.scss'],
+  imports: [CommonModule],
+  standalone: true
+})
+export class SheetHistoryComponent implements OnChanges {
+  @Input({ required: true }) sheet!: SheetComponent;
+
+  public history$: Observable<HistoryState> = of({ entries: [], position: 0 });
+
+  ngOnChanges(): void {
+    this.history$ = this.sheet.undoRedoService.history$;
+  }
+
+  /**
+   * Undo/redo until `position` entries are applied, as a single change to the sheet.
+   */
+  public jumpTo(position: number): void {
+    this.sheet.dataService.transaction(() => this.sheet.undoRedoService.jumpTo(position));
+  }
+}
@@ -0,0 +1,86 @@
+import { Component, ElementRef, ViewChild, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { WorkbookService } from '../../services/workbook.service';
+
+/**
+ * The tab strip under a workbook: click a tab to show its sheet, double-click
+ * to rename it, drag it to reorder, × deletes the shown sheet and + adds one.
+ */
+@Component({
+  selector: 'sheet-tabs',
+  templateUrl: './sheet-tabs.component.html',
+  styleUrls: ['./sheet-tabs.component.scss'],
+  imports: [CommonModule],
+  standalone: true
+})
+export class SheetTabsComponent {
+  public workbookService = inject(WorkbookService);
+  public workbook$ = this.workbookService.workbook$;
+
+  // Tab being renamed / dragged
+  public renaming: number | null = null;
+  // Why the name typed into the rename input can't be used
+  public error = '';
+  private dragging: number | null = null;
+
+  // The rename input takes focus as soon as it appears
+  @ViewChild('nameInput') set nameInput(input: ElementRef<HTMLInputElement> | undefined) {
+    input?.nativeElement.focus();
+    input?.nativeElement.select();
+  }
+
+  public select(index: number): void {
+    this.workbookService.selectSheet(index);
+  }
+
+  public add(): void {
+    this.workbookService.addSheet();
+  }
+
+  public startRename(index: number): void {
+    this.renaming = index;
+    this.error = '';
+  }
+
+  // An invalid name keeps the input open with the reason next to it
+  public finishRename(name: string): void {
+    if (this.renaming === null) return;
+    this.error = this.workbookService.checkSheetName(name, this.renaming) ?? '';
+    if (this.error) return;
+    this.workbookService.renameSheet(this.renaming, name);
+    this.renaming = null;
+  }
+
+  public cancelRename(): void {
+    this.renaming = null;
+    this.error = '';
+  }
+
+  public delete(index: number, event: MouseEvent): void {
+    event.stopPropagation();
+    this.workbookService.deleteSheet(index);
+  }
+
+  public onDragStart(index: number, event: DragEvent): void {
+    this.dragging = index;
+    event.dataTransfer?.setData('text/plain', String(index));
+  }
+
+  public onDragOver(event: DragEvent): void {
+    // Allows dropping on the tab
+    if (this.dragging !== null) {
+      event.preventDefault();
+    }
+  }
+
+  public onDrop(index: number): void {
+    if (this.dragging !== null) {
+      this.workbookService.moveSheet(this.dragging, index);
+    }
+    this.dragging = null;
+  }
+
+  public onDragEnd(): void {
+    this.dragging = null;
+  }
+}
@@ -0,0 +1,76 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { Debug, Sheet } from '../../models/sheet.model';
+import { FormulaFunction } from '../../models/formula.model';
+import { Workbook, WorkbookSheet } from '../../models/workbook.model';
+import { DEFAULT_HISTORY_DEPTH } from '../../services/undo-redo.service';
+import { WorkbookService } from '../../services/workbook.service';
+import { SheetComponent } from '../sheet/sheet.component';
+import { SheetTabsComponent } from '../sheet-tabs/sheet-tabs.component';
+
+/**
+ * Shows the sheets of a workbook one at a time, with a tab strip to switch,
+ * add, rename, reorder and delete them. Every sheet keeps its own `<sheet>`,
+ * so selection, scroll position and undo history survive switching tabs.
+ *
+ * <sheet-workbook [workbook]="workbook" (workbookChange)="save($event)"></sheet-workbook>
+ */
+@Component({
+  selector: 'sheet-workbook',
+  standalone: true,
+  imports: [CommonModule, SheetComponent, SheetTabsComponent],
+  templateUrl: './sheet-workbook.component.html',
+  styleUrls: ['./sheet-workbook.component.scss'],
+  providers: [WorkbookService],
+})
+export class SheetWorkbookComponent implements OnChanges, OnDestroy {
+  private workbookService = inject(WorkbookService);
+
+  @Input({ required: true }) workbook!: Workbook;
+  // Passed on to every sheet
+  @Input() debug: Debug = {
+    showFpsCounter: false
+  };
+  @Input() functions: Record<string, FormulaFunction> = {};
+  @Input() historyDepth = DEFAULT_HISTORY_DEPTH;
+  @Input() showHeaders = false;
+  // Emits the (mutated) workbook after its tabs or the data of any sheet changed
+  @Output() workbookChange = new EventEmitter<Workbook>();
+
+  private destroy$ = new Subject<void>();
+  // Set while the input is handed to the service, which is not a change to report
+  private loading = false;
+
+  constructor() {
+    this.workbookService.workbook$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((workbook) => {
+        if (workbook && !this.loading) {
+          this.workbookChange.emit(workbook);
+        }
+      });
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['workbook'] && this.workbook) {
+      this.loading = true;
+      this.workbookService.setWorkbook(this.workbook);
+      this.loading = false;
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  // updateSheet (and undoing it) swaps in another sheet object, which the tab has to follow
+  public onSheetDataChange(entry: WorkbookSheet, sheet: Sheet): void {
+    entry.sheet = sheet;
+    if (!this.loading) {
+      this.workbookChange.emit(this.workbook);
+    }
+  }
+}
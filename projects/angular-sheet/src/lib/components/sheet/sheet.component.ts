@@ -14,8 +14,12 @@ import {
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { Sheet, Debug } from '../../models/sheet.model';
+import { Sheet, Debug, CellStyles } from '../../models/sheet.model';
+import { getCell, getCellStore, getMergeAnchor } from '../../utils/sheet.utils';
+import { resolveCellStyles } from '../../utils/style.utils';
+import { FormulaFunction } from '../../models/formula.model';
 import { ContextMenuComponent } from '../context-menu/context-menu.component';
+import { GoToComponent } from '../go-to/go-to.component';
 import { Subscription, Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 
@@ -26,12 +30,19 @@ import { AnimationService } from '../../services/animation.service';
 import { DataService } from '../../services/data.service';
 import { ClipboardService } from '../../services/clipboard.service';
 import { FpsService } from '../../services/fps.service';
+import { FormulaService } from '../../services/formula.service';
+import { DependencyGraphService } from '../../services/dependency-graph.service';
+import { FunctionRegistryService } from '../../services/function-registry.service';
+import { LayoutService } from '../../services/layout.service';
+import { ConditionalFormatService } from '../../services/conditional-format.service';
+import { UndoRedoService, DEFAULT_HISTORY_DEPTH } from '../../services/undo-redo.service';
+import { WorkbookService } from '../../services/workbook.service';
 import { FpsCounterComponent } from '../fps-counter/fps-counter.component';
 
 @Component({
   selector: 'sheet',
   standalone: true,
-  imports: [CommonModule, FormsModule, ContextMenuComponent, FpsCounterComponent],
+  imports: [CommonModule, FormsModule, ContextMenuComponent, GoToComponent, FpsCounterComponent],
   templateUrl: './sheet.component.html',
   styleUrls: ['./sheet.component.scss'],
   providers: [
@@ -42,6 +53,12 @@ import { FpsCounterComponent } from '../fps-counter/fps-counter.component';
     DataService,
     ClipboardService,
     FpsService,
+    FormulaService,
+    DependencyGraphService,
+    FunctionRegistryService,
+    UndoRedoService,
+    LayoutService,
+    ConditionalFormatService,
   ],
 })
 
@@ -50,13 +67,25 @@ export class SheetComponent implements AfterViewInit, OnChanges, OnDestroy {
   private renderService = inject(RenderService);
   private eventService = inject(EventService);
   private animationService = inject(AnimationService);
-  private dataService = inject(DataService);
+  public dataService = inject(DataService);
   private fpsService = inject(FpsService);
+  private formulaService = inject(FormulaService);
+  private functionRegistry = inject(FunctionRegistryService);
+  public undoRedoService = inject(UndoRedoService);
+  private layoutService = inject(LayoutService);
+  // Provided by <sheet-workbook> when the sheet is one of its tabs
+  private workbook = inject(WorkbookService, { optional: true });
 
   @Input() sheetData?: Sheet;
   @Input() debug: Debug = {
     showFpsCounter: false
   };
+  // Extra formula functions (sync or async), e.g. { FX: (args) => convert(args) }
+  @Input() functions: Record<string, FormulaFunction> = {};
+  // Maximum number of undo steps kept
+  @Input() historyDepth = DEFAULT_HISTORY_DEPTH;
+  // Show Excel-style column letters and row numbers around the grid
+  @Input() showHeaders = false;
   @Output() sheetDataChange = new EventEmitter<Sheet>();
   @Output() fpsUpdate = new EventEmitter<number>();
 
@@ -70,14 +99,63 @@ export class SheetComponent implements AfterViewInit, OnChanges, OnDestroy {
   sheetInput!: ElementRef<HTMLInputElement>;
   @ViewChild('scrollContainer', { static: true })
   scrollContainer!: ElementRef<HTMLDivElement>;
+  @ViewChild('scrollContent', { static: true })
+  scrollContent!: ElementRef<HTMLDivElement>;
 
   private subscriptions: Subscription[] = [];
+  private registeredFunctions: string[] = [];
+  private resizeObserver?: ResizeObserver;
   private scrollX = 0;
   private scrollY = 0;
 
+  constructor() {
+    // Subscribed right away, as sibling sheets recalculate as soon as their data is set
+    this.workbook?.cellChanges$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((change) => {
+        const sheet = this.dataService.getSheetData();
+        if (sheet) {
+          this.formulaService.recalculateDependents(sheet, change);
+        }
+      });
+
+    // Renamed sheets or moved rows/columns elsewhere may have rewritten this sheet's formulas
+    this.workbook?.formulasChanged$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        const sheet = this.dataService.getSheetData();
+        if (sheet) {
+          this.formulaService.recalculate(sheet);
+          this.dataService.emitSheetChanges(sheet);
+        }
+      });
+  }
+
   // Lifecycle hooks
   ngOnChanges(changes: SimpleChanges): void {
+    if (changes['historyDepth']) {
+      this.undoRedoService.setMaxDepth(this.historyDepth);
+    }
+    if (changes['showHeaders']) {
+      this.layoutService.setHeadersVisible(this.showHeaders);
+      const sheet = this.dataService.getSheetData();
+      if (sheet && !changes['sheetData']) {
+        this.renderService.updateScrollExtent(sheet);
+        this.renderService.markDirty();
+      }
+    }
+    if (changes['functions']) {
+      this.registerFunctions();
+      // Formulas may now resolve (or stop resolving) names
+      const sheet = this.dataService.getSheetData();
+      if (sheet && !changes['sheetData']) {
+        this.formulaService.recalculate(sheet);
+      }
+    }
     if (changes['sheetData'] && this.sheetData) {
+      // Sizes may have changed even if the columns/rows arrays were reused
+      this.layoutService.invalidateColumns();
+      this.layoutService.invalidateRows();
       this.dataService.setSheetData(this.sheetData);
       this.renderService.initCanvasSize(
         this.sheetCanvas.nativeElement,
@@ -92,7 +170,8 @@ export class SheetComponent implements AfterViewInit, OnChanges, OnDestroy {
     this.addRowsAndColumns();
     this.renderService.setCanvas(
       this.sheetCanvas.nativeElement,
-      this.scrollContainer.nativeElement
+      this.scrollContainer.nativeElement,
+      this.scrollContent.nativeElement
     );
     this.dataService.setSheetData(this.sheetData);
     this.stateService.setInputElement(this.sheetInput.nativeElement);
@@ -109,6 +188,10 @@ export class SheetComponent implements AfterViewInit, OnChanges, OnDestroy {
 
     this.renderService.markDirty();
 
+    // The canvas follows the size of the viewport
+    this.resizeObserver = new ResizeObserver(() => this.renderService.markDirty());
+    this.resizeObserver.observe(this.scrollContainer.nativeElement);
+
     this.startAnimation();
 
     this.dataService.sheetChanges$
@@ -116,11 +199,43 @@ export class SheetComponent implements AfterViewInit, OnChanges, OnDestroy {
       .subscribe((sheet) => {
         if (sheet) {
           this.sheetDataChange.emit(sheet);
-          // When data changes, we need to redraw
+          // When data changes, we need to redraw (sizes may have changed too)
+          this.renderService.updateScrollExtent(sheet);
           this.renderService.markDirty();
         }
       });
 
+    // Inserted/deleted rows and columns move the selection, and the copied cells are gone
+    this.dataService.structureChanges$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((change) => {
+        const sheet = this.dataService.getSheetData();
+        if (!sheet) return;
+        this.stateService.applyStructureChange(change, sheet);
+        this.stateService.setMarchingAnts(false);
+        this.stateService.updateCopyHighlight({
+          start: { row: -1, col: -1 },
+          end: { row: -1, col: -1 }
+        });
+        const { start } = this.stateService.selection;
+        if (start.row >= 0) {
+          const anchor = getMergeAnchor(sheet, start.row, start.col);
+          this.stateService.updateActiveCell(getCell(sheet, anchor.row, anchor.col) ?? null);
+          this.stateService.positionInputAt(anchor.row, anchor.col, sheet);
+        }
+      });
+
+    // Recalculated formula values need a redraw; async results and changes
+    // coming from other sheets of the workbook are a change of their own
+    this.formulaService.recalculated$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((result) => {
+        if (result.async || result.external) {
+          this.dataService.emitSheetChanges(result.sheet);
+        }
+        this.renderService.markDirty();
+      });
+
     // Subscribe to FPS updates
     this.fpsService.fps$
       .pipe(takeUntil(this.destroy$))
@@ -131,18 +246,31 @@ export class SheetComponent implements AfterViewInit, OnChanges, OnDestroy {
   }
 
   ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
     this.animationService.stopAnimation();
+    this.resizeObserver?.disconnect();
     this.subscriptions.forEach((sub) => sub.unsubscribe());
   }
 
+  private registerFunctions(): void {
+    // Only functions no longer passed in are removed; unchanged ones keep their async results
+    const names = Object.keys(this.functions ?? {});
+    this.registeredFunctions
+      .filter((name) => !names.includes(name))
+      .forEach((name) => this.functionRegistry.unregister(name));
+    this.registeredFunctions = names;
+    this.registeredFunctions.forEach((name) =>
+      this.functionRegistry.register(name, this.functions[name])
+    );
+  }
+
   private addRowsAndColumns(): void {
     if (!this.sheetData) return;
 
-    this.sheetData.cells.forEach((row, rowIndex) => {
-      row.forEach((cell, colIndex) => {
-        cell.rowIndex = rowIndex;
-        cell.columnIndex = colIndex;
-      });
+    getCellStore(this.sheetData).forEach((cell, rowIndex, colIndex) => {
+      cell.rowIndex = rowIndex;
+      cell.columnIndex = colIndex;
     });
   }
 
@@ -151,6 +279,8 @@ export class SheetComponent implements AfterViewInit, OnChanges, OnDestroy {
   handleKeyboardEvent(event: KeyboardEvent) {
     const sheet = this.dataService.getSheetData();
     if (!sheet) return;
+    // Only the shown tab of a workbook takes keystrokes
+    if (this.workbook && !this.workbook.isActive(sheet)) return;
 
     this.eventService.onKeyDown(event, sheet);
     this.renderService.requestRender();
@@ -160,7 +290,7 @@ export class SheetComponent implements AfterViewInit, OnChanges, OnDestroy {
   handleOutsideClick(event: Event): void {
     const target = event.target as HTMLElement;
     if (target.id === 'sheet-input') return;
-    this.stateService.updateInputState({ disabled: true });
+    this.commitEdit();
   }
 
   @HostListener('document:mouseup', ['$event'])
@@ -169,10 +299,22 @@ export class SheetComponent implements AfterViewInit, OnChanges, OnDestroy {
       this.stateService.mouseMode === MouseMode.RESIZING_COLUMN ||
       this.stateService.mouseMode === MouseMode.RESIZING_ROW
     ) {
+      const { resizingColumnIndex, resizingRowIndex, originalSize } = this.stateService.getResizeState();
+      if (originalSize !== undefined) {
+        if (this.stateService.mouseMode === MouseMode.RESIZING_COLUMN && resizingColumnIndex !== undefined) {
+          this.dataService.commitResize('column', resizingColumnIndex, originalSize);
+        } else if (resizingRowIndex !== undefined) {
+          this.dataService.commitResize('row', resizingRowIndex, originalSize);
+        }
+      }
       this.stateService.setMouseMode(MouseMode.DEFAULT);
       this.stateService.updateResizeState({});
       this.renderService.requestRender();
-    } else if (this.stateService.mouseMode === MouseMode.SELECTING_CELLS) {
+    } else if (
+      this.stateService.mouseMode === MouseMode.SELECTING_CELLS ||
+      this.stateService.mouseMode === MouseMode.SELECTING_COLUMNS ||
+      this.stateService.mouseMode === MouseMode.SELECTING_ROWS
+    ) {
       this.stateService.setMouseMode(MouseMode.DEFAULT);
     }
   }
@@ -202,27 +344,52 @@ export class SheetComponent implements AfterViewInit, OnChanges, OnDestroy {
     this.eventService.onMouseMove(event, sheet);
   }
 
+  // The editor input takes on the look of the cell being edited
+  get editorStyles(): CellStyles | undefined {
+    const cell = this.stateService.activeCell;
+    const sheet = this.dataService.getSheetData();
+    if (!cell || !sheet || cell.rowIndex == null || cell.columnIndex == null) return cell?.styles;
+    // The active cell of an empty position isn't stored, so only a stored cell's own styles apply
+    return resolveCellStyles(sheet, cell.rowIndex, cell.columnIndex, getCell(sheet, cell.rowIndex, cell.columnIndex));
+  }
+
   public onInputBlur(): void {
-    this.stateService.updateInputState({ disabled: true });
+    this.commitEdit();
   }
 
+  // The text is parsed and stored when the edit is committed, not on every keystroke
   public onInputChange(): void {
-    if (!this.stateService.activeCell) return;
+    if (this.stateService.input.invalid) {
+      this.stateService.updateInputState({ invalid: false });
+    }
+  }
 
+  private commitEdit(): void {
     const sheet = this.dataService.getSheetData();
-    if (!sheet) return;
-
-    const { row, col } = this.stateService.selection.start;
-    this.dataService.updateCellValues(row, col, this.stateService.input.value);
+    if (sheet) {
+      this.eventService.commitEdit(sheet);
+    } else {
+      this.stateService.updateInputState({ disabled: true });
+    }
     this.renderService.requestRender();
   }
 
   public onScroll(): void {
     const containerEl = this.scrollContainer.nativeElement;
-    this.scrollX = containerEl.scrollLeft;
-    this.scrollY = containerEl.scrollTop;
-    this.stateService.updateScrollPosition(this.scrollX, this.scrollY);
-    this.renderService.requestRender();
+    const sheet = this.dataService.getSheetData();
+    // Grids too big to scroll natively move further than the container scrolls
+    const scroll = sheet ? this.renderService.getGridScroll(sheet) : { x: containerEl.scrollLeft, y: containerEl.scrollTop };
+    this.scrollX = scroll.x;
+    this.scrollY = scroll.y;
+    const offset = { x: scroll.x - containerEl.scrollLeft, y: scroll.y - containerEl.scrollTop };
+    this.stateService.updateScrollPosition(this.scrollX, this.scrollY, offset);
+    // The input over a frozen cell, or on a scaled grid, has to follow the scroll to stay in place
+    const { start } = this.stateService.selection;
+    if (sheet && start.row >= 0) {
+      this.stateService.positionInputAt(start.row, start.col, sheet);
+    }
+    // The canvas only holds the visible window, so every scroll needs a redraw
+    this.renderService.markDirty();
   }
 
   public onContextMenu(event: MouseEvent): void {
@@ -0,0 +1,207 @@
+import { Cell, CellStyles, Range, StructureChange } from './sheet.model';
+
+// A cell together with the position it was stored at
+export interface StoredCell {
+  row: number;
+  col: number;
+  cell: Cell;
+}
+
+/**
+ * Storage backend for the cells of a sheet. Services read and write cells
+ * through this interface (see `getCellStore`) instead of indexing
+ * `sheet.cells` directly, so a sheet can keep its cells in any structure.
+ */
+export interface CellStore {
+  // The cell at a position, or undefined if nothing is stored there
+  get(row: number, col: number): Cell | undefined;
+  // The cell at a position, creating an empty one if nothing is stored there
+  getOrCreate(row: number, col: number): Cell;
+  set(row: number, col: number, cell: Cell): void;
+  // Removes the cell at a position, leaving it empty
+  delete(row: number, col: number): void;
+  // Visits every stored cell, optionally only those inside a range
+  forEach(callback: (cell: Cell, row: number, col: number) => void, range?: Range): void;
+  // Makes room for `count` empty rows/columns at `index`, moving the cells after it along
+  insert(axis: StructureChange['axis'], index: number, count: number): void;
+  // Removes `count` rows/columns at `index`, moving the cells after it back; returns the removed cells
+  remove(axis: StructureChange['axis'], index: number, count: number): StoredCell[];
+}
+
+/**
+ * The classic `Cell[][]` layout: every position holds its own cell.
+ */
+export class DenseCellStore implements CellStore {
+  constructor(public readonly cells: Cell[][]) { }
+
+  get(row: number, col: number): Cell | undefined {
+    return this.cells[row]?.[col];
+  }
+
+  getOrCreate(row: number, col: number): Cell {
+    return this.get(row, col) ?? this.create(row, col);
+  }
+
+  set(row: number, col: number, cell: Cell): void {
+    (this.cells[row] ??= [])[col] = cell;
+    cell.rowIndex = row;
+    cell.columnIndex = col;
+  }
+
+  // Every position keeps a cell, so deleting puts an empty one back
+  delete(row: number, col: number): void {
+    if (this.get(row, col)) {
+      this.create(row, col);
+    }
+  }
+
+  forEach(callback: (cell: Cell, row: number, col: number) => void, range?: Range): void {
+    if (range) {
+      for (let row = range.start.row; row <= range.end.row; row++) {
+        for (let col = range.start.col; col <= range.end.col; col++) {
+          const cell = this.get(row, col);
+          if (cell) callback(cell, row, col);
+        }
+      }
+      return;
+    }
+    this.cells.forEach((cells, row) => cells.forEach((cell, col) => callback(cell, row, col)));
+  }
+
+  insert(axis: StructureChange['axis'], index: number, count: number): void {
+    const emptyCells = (length: number) => Array.from({ length }, () => new Cell(null));
+    if (axis === 'row') {
+      const width = (this.cells[index] ?? this.cells[index - 1])?.length ?? 0;
+      this.cells.splice(index, 0, ...Array.from({ length: count }, () => emptyCells(width)));
+    } else {
+      this.cells.forEach(cells => cells.splice(index, 0, ...emptyCells(count)));
+    }
+    this.reindex();
+  }
+
+  remove(axis: StructureChange['axis'], index: number, count: number): StoredCell[] {
+    const removed: StoredCell[] = [];
+    if (axis === 'row') {
+      this.cells.splice(index, count).forEach((cells, offset) =>
+        cells.forEach((cell, col) => removed.push({ row: index + offset, col, cell })));
+    } else {
+      this.cells.forEach((cells, row) =>
+        cells.splice(index, count).forEach((cell, offset) => removed.push({ row, col: index + offset, cell })));
+    }
+    this.reindex();
+    return removed;
+  }
+
+  // Brings rowIndex/columnIndex of every cell in line with its position
+  private reindex(): void {
+    this.forEach((cell, row, col) => {
+      cell.rowIndex = row;
+      cell.columnIndex = col;
+    });
+  }
+
+  private create(row: number, col: number): Cell {
+    const cell = new Cell(null);
+    this.set(row, col, cell);
+    return cell;
+  }
+}
+
+/**
+ * Keeps only the cells that were written, keyed by row and column, for large
+ * sheets that are mostly empty. Cells created by the store share one styles
+ * object until they are formatted.
+ *
+ * Use it by giving the sheet `cells: []` and `store: new SparseCellStore()`.
+ */
+export class SparseCellStore implements CellStore {
+  private rows = new Map<number, Map<number, Cell>>();
+  private defaultStyles = new CellStyles();
+
+  get(row: number, col: number): Cell | undefined {
+    return this.rows.get(row)?.get(col);
+  }
+
+  getOrCreate(row: number, col: number): Cell {
+    let cell = this.get(row, col);
+    if (!cell) {
+      cell = new Cell(null, { styles: this.defaultStyles });
+      this.set(row, col, cell);
+    }
+    return cell;
+  }
+
+  set(row: number, col: number, cell: Cell): void {
+    let cells = this.rows.get(row);
+    if (!cells) {
+      cells = new Map();
+      this.rows.set(row, cells);
+    }
+    cells.set(col, cell);
+    cell.rowIndex = row;
+    cell.columnIndex = col;
+  }
+
+  delete(row: number, col: number): void {
+    const cells = this.rows.get(row);
+    if (!cells) return;
+    cells.delete(col);
+    if (cells.size === 0) {
+      this.rows.delete(row);
+    }
+  }
+
+  forEach(callback: (cell: Cell, row: number, col: number) => void, range?: Range): void {
+    this.rows.forEach((cells, row) => {
+      if (range && (row < range.start.row || row > range.end.row)) return;
+      cells.forEach((cell, col) => {
+        if (range && (col < range.start.col || col > range.end.col)) return;
+        callback(cell, row, col);
+      });
+    });
+  }
+
+  insert(axis: StructureChange['axis'], index: number, count: number): void {
+    this.move(axis, n => n >= index ? n + count : n);
+  }
+
+  remove(axis: StructureChange['axis'], index: number, count: number): StoredCell[] {
+    const end = index + count;
+    const removed: StoredCell[] = [];
+    this.forEach((cell, row, col) => {
+      const n = axis === 'row' ? row : col;
+      if (n >= index && n < end) removed.push({ row, col, cell });
+    });
+    removed.forEach(({ row, col }) => this.delete(row, col));
+    this.move(axis, n => n >= end ? n - count : n);
+    return removed;
+  }
+
+  // Rebuilds the maps with every row (or column) index passed through `move`
+  private move(axis: StructureChange['axis'], move: (index: number) => number): void {
+    const rows = new Map<number, Map<number, Cell>>();
+    this.rows.forEach((cells, row) => {
+      if (axis === 'row') {
+        const target = move(row);
+        cells.forEach(cell => cell.rowIndex = target);
+        rows.set(target, cells);
+      } else {
+        const moved = new Map<number, Cell>();
+        cells.forEach((cell, col) => {
+          const target = move(col);
+          cell.columnIndex = target;
+          moved.set(target, cell);
+        });
+        rows.set(row, moved);
+      }
+    });
+    this.rows = rows;
+  }
+
+  // Number of stored cells
+  get size(): number {
+    let size = 0;
+    this.rows.forEach(cells => size += cells.size);
+    return size;
+  }
+}
@@ -0,0 +1,67 @@
+// Error codes a formula can evaluate to (rendered as the cell value)
+export type FormulaErrorCode =
+  | '#DIV/0!'
+  | '#VALUE!'
+  | '#REF!'
+  | '#NAME?'
+  | '#N/A'
+  | '#NUM!'
+  | '#CIRCULAR!'
+  | '#BUSY!'
+  | '#ERROR!';
+
+export class FormulaError {
+  constructor(
+    public readonly code: FormulaErrorCode,
+    public readonly message?: string
+  ) { }
+
+  toString(): string {
+    return this.code;
+  }
+}
+
+// A single A1-style reference. `$` anchors are kept so the reference can be rewritten later.
+export interface CellReference {
+  row: number;
+  col: number;
+  rowAbsolute: boolean;
+  colAbsolute: boolean;
+}
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '^' | '&'
+  | '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+export type UnaryOperator = '-' | '+' | '%';
+
+// Parsed formula (abstract syntax tree). References carry the sheet they
+// were qualified with (`Costs!B4`); without one they point at the formula's own sheet.
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; code: FormulaErrorCode }
+  | { type: 'empty' }
+  | { type: 'cell'; ref: CellReference; sheet?: string }
+  | { type: 'range'; start: CellReference; end: CellReference; sheet?: string }
+  | { type: 'name'; name: string; sheet?: string }
+  | { type: 'unary'; operator: UnaryOperator; operand: FormulaNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { type: 'function'; name: string; args: FormulaNode[] };
+
+// Scalar result of evaluating a formula
+export type FormulaValue = string | number | boolean | Date | null | FormulaError;
+
+// Ranges are passed to functions as a 2D block of values
+export type FormulaRangeValue = FormulaValue[][];
+
+export type FormulaArgument = FormulaValue | FormulaRangeValue;
+
+/**
+ * A spreadsheet function callable from formulas. Ranges arrive as 2D arrays.
+ * Returning a Promise makes the function async: the cell shows `#BUSY!` until it settles.
+ */
+export type FormulaFunction = (
+  args: FormulaArgument[]
+) => FormulaArgument | Promise<FormulaValue>;
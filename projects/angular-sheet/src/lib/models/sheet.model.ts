@@ -1,3 +1,10 @@
+import { isFormulaInput } from '../utils/formula.utils';
+import { InputParseOptions, parseInput, toInputText } from '../utils/parse.utils';
+import type { CellStore } from './cell-store.model';
+
+// What each CellStyles was created with, as opposed to the properties left at their defaults
+const setProperties = new WeakMap<CellStyles, Partial<CellStyles>>();
+
 // Base class for cell styles
 export class CellStyles {
   backgroundColor: string;
@@ -21,13 +28,26 @@ export class CellStyles {
     this.fontWeight = config.fontWeight ?? 'normal';
     this.fontFamily = config.fontFamily ?? 'Arial';
     this.textAlign = config.textAlign ?? 'left';
-    this.verticalAlign = config.verticalAlign ?? 'top';
-    this.borderTop = config.borderTop ?? '1px solid black';
-    this.borderBottom = config.borderBottom ?? '1px solid black';
-    this.borderLeft = config.borderLeft ?? '1px solid black';
-    this.borderRight = config.borderRight ?? '1px solid black';
-    this.padding = config.padding ?? '2px';
-    this.wrap = config.wrap ?? true;
+    this.verticalAlign = config.verticalAlign ?? 'middle';
+    // CSS border shorthands, e.g. "1px solid black"; the light grid line shows where there is none
+    this.borderTop = config.borderTop ?? 'none';
+    this.borderBottom = config.borderBottom ?? 'none';
+    this.borderLeft = config.borderLeft ?? 'none';
+    this.borderRight = config.borderRight ?? 'none';
+    // CSS padding shorthand in pixels
+    this.padding = config.padding ?? '2px 10px';
+    this.wrap = config.wrap ?? false;
+    setProperties.set(this, CellStyles.getSetProperties(config));
+  }
+
+  /**
+   * The properties that were set rather than left at their defaults: those a
+   * `CellStyles` was created with, or every one a plain object has. Only these
+   * override the column's, row's and sheet's styles (see `resolveCellStyles`).
+   */
+  static getSetProperties(styles: Partial<CellStyles>): Partial<CellStyles> {
+    const set = styles instanceof CellStyles ? setProperties.get(styles) : undefined;
+    return set ?? Object.fromEntries(Object.entries(styles).filter(([, value]) => value !== undefined));
   }
 
   /**
@@ -56,11 +76,19 @@ export interface CellRenderContext {
 
 export type CellRenderer = (context: CellRenderContext) => void;
 
+const FOCUS_BACKGROUND = '#d1e0ff'; // light blue
+const HIGHLIGHT_BACKGROUND = '#ffe0e0'; // light red
+
 // Base class for cell
 export class Cell {
   value: string | number | boolean | Date | null;
   datatype: 'string' | 'number' | 'boolean' | 'date' | 'formula';
+  // Excel number format the value is drawn with, e.g. "#,##0.00" or "yyyy-mm-dd" (see `formatValue`)
   formatter?: string;
+  // Source of a formula cell (e.g. "=SUM(A1:B3)"); `value` then holds the computed result
+  formula?: string;
+  // Why the last input could not be read as the cell's datatype; `value` then holds the raw text
+  inputError?: string;
   styles: CellStyles;
   isHighlighted: boolean;
   isFocused: boolean;
@@ -81,6 +109,7 @@ export class Cell {
     this.value = value;
     this.datatype = config.datatype ?? 'string';
     this.formatter = config.formatter;
+    this.formula = config.formula ?? (this.datatype === 'formula' && isFormulaInput(value) ? value : undefined);
     this.styles = config.styles ?? new CellStyles();
     this.isHighlighted = config.isHighlighted ?? false;
     this.isFocused = config.isFocused ?? false;
@@ -97,25 +126,70 @@ export class Cell {
     this.updateStyles();
   }
 
-  handleInput(newValue: string | number | boolean | Date) {
-    this.value = newValue;
+  /**
+   * Stores typed input, parsed as the cell's datatype (see `parseInput`). Input
+   * that can't be parsed is kept as text and flagged in `inputError`, or with
+   * `invalidInput: 'reject'` leaves the cell unchanged and returns false.
+   */
+  handleInput(
+    newValue: string | number | boolean | Date,
+    options: InputParseOptions & { invalidInput?: 'flag' | 'reject' } = {}
+  ): boolean {
+    if (isFormulaInput(newValue)) {
+      // The value is computed by the FormulaService on the next recalculation; the
+      // datatype stays, so plain input typed over the formula is parsed as before
+      this.formula = newValue;
+      this.inputError = undefined;
+    } else {
+      // Cells created as 'formula' have no other type to read plain input as
+      const datatype = this.datatype === 'formula' ? 'string' : this.datatype;
+      const parsed = parseInput(newValue, datatype, options);
+      if ('error' in parsed && options.invalidInput === 'reject') return false;
+      this.datatype = datatype;
+      this.formula = undefined;
+      if ('error' in parsed) {
+        this.value = newValue;
+        this.inputError = parsed.error;
+      } else {
+        this.value = parsed.value;
+        this.inputError = undefined;
+      }
+    }
     this.updateStyles();
+    return true;
+  }
+
+  /**
+   * The text shown in the editor input: the formula source for formula cells,
+   * otherwise the raw value, written so that it parses back to the same value.
+   */
+  getInputValue(locale?: string): string {
+    return this.formula ?? toInputText(this.value, locale);
   }
 
   updateStyles() {
     if (this.isFocused) {
-      this.styles.backgroundColor = '#d1e0ff'; // light blue for focus
+      this.setStyles({ backgroundColor: FOCUS_BACKGROUND });
     } else if (this.isHighlighted) {
-      this.styles.backgroundColor = '#ffe0e0'; // light red for highlight
+      this.setStyles({ backgroundColor: HIGHLIGHT_BACKGROUND });
     } else if (this.isReferenceCell) {
       // If it's a reference cell, we might set a default background
       // but only if the user hasn't already customized it.
-      if (this.styles.backgroundColor === 'white') {
-        this.styles.backgroundColor = '#e0e0e0';
-      }
-      this.styles.fontWeight = 'bold';
-    } else {
-      this.styles.backgroundColor = 'white';
+      this.setStyles({
+        backgroundColor: this.styles.backgroundColor === 'white' ? '#e0e0e0' : this.styles.backgroundColor,
+        fontWeight: 'bold'
+      });
+    } else if (this.styles.backgroundColor === FOCUS_BACKGROUND || this.styles.backgroundColor === HIGHLIGHT_BACKGROUND) {
+      // Only the colour of an earlier focus/highlight is reset; custom backgrounds stay
+      this.setStyles({ backgroundColor: undefined });
+    }
+  }
+
+  // Styles objects can be shared between cells, so changes replace the object instead of mutating it
+  private setStyles(changes: Partial<CellStyles>) {
+    const keys = Object.keys(changes) as (keyof CellStyles)[];
+    if (keys.some(key => this.styles[key] !== changes[key])) {
+      this.styles = new CellStyles({ ...CellStyles.getSetProperties(this.styles), ...changes });
     }
   }
 }
@@ -124,25 +198,94 @@ export class Cell {
 // Interface for column styles
 export interface ColumnStyle {
   width: number;
-  styles?: CellStyles;
+  // Inherited by the column's cells (see `resolveCellStyles`)
+  styles?: Partial<CellStyles>;
+  // Hidden columns keep their cells but take up no space
+  hidden?: boolean;
 }
 
 // Interface for row styles
 export interface RowStyle {
   height: number;
-  styles?: CellStyles;
+  // Inherited by the row's cells, over the column's styles
+  styles?: Partial<CellStyles>;
+  // Hidden rows keep their cells but take up no space
+  hidden?: boolean;
+}
+
+// Consecutive rows/columns (inclusive indexes) that can be collapsed as an outline group
+export interface OutlineGroup {
+  start: number;
+  end: number;
+  collapsed?: boolean;
+}
+
+// A name formulas can use in place of a range (`=SUM(Q1Sales)`)
+export interface NamedRange {
+  name: string;
+  range: Range;
+}
+
+// What a conditional format tests each cell of its range for
+export type ConditionalFormatRule =
+  // Compares the value with `value` (and `value2` for the between operators), as formulas do
+  | { type: 'value'; operator: '>' | '>=' | '<' | '<=' | '=' | '<>' | 'between' | 'notBetween'; value: string | number | Date; value2?: string | number | Date }
+  | { type: 'textContains'; text: string; caseSensitive?: boolean }
+  // The `count` highest/lowest numbers of the range, or that percentage of them
+  | { type: 'top' | 'bottom'; count: number; percent?: boolean }
+  // Values found more than once, or only once, in the range
+  | { type: 'duplicates' | 'unique' }
+  // True for the range's top-left cell (`=$B2>100`); relative references shift for the other cells
+  | { type: 'formula'; formula: string };
+
+// Styles drawn over the cells of a range that match a rule
+export interface ConditionalFormat {
+  range: Range;
+  rule: ConditionalFormatRule;
+  styles: Partial<CellStyles>;
+  // Formats after this one are skipped for the cells it matches
+  stopIfTrue?: boolean;
 }
 
 // Interface for sheet
 export interface Sheet {
   cells: Cell[][];
+  // Alternative storage for the cells; when set, `cells` is ignored
+  store?: CellStore;
   columns: ColumnStyle[];
   rows: RowStyle[];
+  // Styles every cell inherits unless its column, row or the cell itself sets them
+  defaultStyles?: Partial<CellStyles>;
+  // Leading rows/columns pinned in place while the rest of the grid scrolls
+  frozenRows?: number;
+  frozenColumns?: number;
+  // Areas shown as one cell, with the value and style of their top-left cell
+  merges?: Range[];
+  // Outline groups; they nest but never partly overlap
+  rowGroups?: OutlineGroup[];
+  columnGroups?: OutlineGroup[];
+  // Named ranges; names are case-insensitive
+  namedRanges?: NamedRange[];
+  // Styles applied while cells match a rule; earlier formats win where they set the same property
+  conditionalFormats?: ConditionalFormat[];
+  // BCP 47 tag for separators, dates and month names in formatted values and typed input (defaults to the browser's)
+  locale?: string;
+  // Store numeric-looking text typed into 'string' cells as numbers
+  inferTypes?: boolean;
+  // What happens to input a cell's datatype can't read: kept and flagged (default) or refused
+  invalidInput?: 'flag' | 'reject';
   metadata?: Record<string, any>;
 }
 
 export type Range = { start: { row: number, col: number }, end: { row: number, col: number } };
 
+// Rows/columns inserted (positive count) or deleted (negative count) at an index
+export interface StructureChange {
+  axis: 'row' | 'column';
+  index: number;
+  count: number;
+}
+
 export interface Debug {
   showFpsCounter?: boolean;
 }
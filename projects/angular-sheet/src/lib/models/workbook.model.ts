@@ -0,0 +1,14 @@
+import type { Sheet } from './sheet.model';
+
+// A sheet of a workbook, under the name formulas refer to it by (`=Costs!B4`)
+export interface WorkbookSheet {
+  name: string;
+  sheet: Sheet;
+}
+
+// Named sheets shown as tabs by `<sheet-workbook>`
+export interface Workbook {
+  sheets: WorkbookSheet[];
+  // Index of the sheet shown (defaults to the first)
+  activeSheet?: number;
+}
@@ -3,52 +3,85 @@ import { Sheet, Range } from '../models/sheet.model';
 import { StateService } from './state.service';
 import { RenderService } from './render.service';
 import { DataService } from './data.service';
+import { shiftFormula } from '../utils/formula.utils';
+import { getCell, normalizeRange, toA1 } from '../utils/sheet.utils';
+import { toInputText } from '../utils/parse.utils';
+
+// What the sheet itself last put on the clipboard
+interface CopiedCells {
+  text: string;
+  // Sheet rows/columns the copied rows/columns came from
+  rows: number[];
+  cols: number[];
+  // Formula source or raw value of each copied cell
+  inputs: (string | number | boolean | Date | null)[][];
+}
+
+export interface CopyOptions {
+  // Leave out hidden rows and columns
+  visibleOnly?: boolean;
+}
 
 @Injectable()
 export class ClipboardService {
   private stateService = inject(StateService);
   private renderService = inject(RenderService);
   private dataService = inject(DataService);
+  private lastCopy: CopiedCells | null = null;
 
-  async copySelection(sheet: Sheet): Promise<void> {
-    if (!sheet) return;
-    const { start, end } = this.stateService.selection;
-    const startRow = Math.min(start.row, end.row);
-    const endRow = Math.max(start.row, end.row);
-    const startCol = Math.min(start.col, end.col);
-    const endCol = Math.max(start.col, end.col);
-
-    const range = {
-      start: { row: startRow, col: startCol },
-      end: { row: endRow, col: endCol }
-    };
-    await this.copy(sheet, range);
+  async copySelection(sheet: Sheet, options: CopyOptions = {}): Promise<boolean> {
+    if (!sheet) return false;
+    return this.copy(sheet, this.stateService.selections.map(selection => normalizeRange(selection)), options);
   }
 
-  public async copy(sheet: Sheet, range: Range) {
+  /**
+   * Copies a range, or several ranges that span the same rows or the same
+   * columns; those are copied side by side / one below the other, like a single block.
+   * Resolves to false when nothing was copied: the ranges share neither rows nor
+   * columns, every cell is hidden (`visibleOnly`) or the clipboard refused the text.
+   */
+  public async copy(sheet: Sheet, range: Range | Range[], options: CopyOptions = {}): Promise<boolean> {
+    const ranges = (Array.isArray(range) ? range : [range]).map(r => normalizeRange(r));
+    const block = this.getCopyBlock(ranges);
+    if (!block) return false;
+    if (options.visibleOnly) {
+      block.rows = block.rows.filter(row => !sheet.rows[row]?.hidden);
+      block.cols = block.cols.filter(col => !sheet.columns[col]?.hidden);
+      if (block.rows.length === 0 || block.cols.length === 0) return false;
+    }
+
     // Build TSV string from selected cells
     let copiedData = '';
-    for (let row = range.start.row; row <= range.end.row; row++) {
+    const inputs: CopiedCells['inputs'] = [];
+    for (const row of block.rows) {
       const rowValues: string[] = [];
-      for (let col = range.start.col; col <= range.end.col; col++) {
+      const rowInputs: CopiedCells['inputs'][number] = [];
+      for (const col of block.cols) {
+        const cell = getCell(sheet, row, col);
         // Ensure that the cell value doesn't contain tab characters that would break paste
-        const cellValue = sheet.cells[row][col].value?.toString() ?? '';
+        // Written the way the editor shows it, so pasting it back parses to the same value
+        const cellValue = toInputText(cell?.value ?? null, sheet.locale);
         // Replace any tab characters with spaces to prevent splitting issues
         rowValues.push(cellValue.replace(/\t/g, ' '));
+        rowInputs.push(cell?.formula ?? cell?.value ?? null);
       }
+      inputs.push(rowInputs);
       copiedData += rowValues.join('\t');
-      if (row < range.end.row) {
+      if (row !== block.rows[block.rows.length - 1]) {
         copiedData += '\n';
       }
     }
 
     try {
       await navigator.clipboard.writeText(copiedData);
+      this.lastCopy = { text: copiedData, rows: block.rows, cols: block.cols, inputs };
       // Update copy highlight and enable marching ants
-      this.stateService.updateCopyHighlight(range);
+      this.stateService.setCopyHighlights(ranges);
       this.stateService.setMarchingAnts(true);
+      return true;
     } catch (err) {
       console.error('Failed to copy data:', err);
+      return false;
     }
   }
 
@@ -71,6 +104,12 @@ export class ClipboardService {
       const text = (await navigator.clipboard.readText());
       if (!text) return;
 
+      // Pasting our own copy keeps formulas (with references shifted) instead of their values
+      if (this.lastCopy && text.replace(/\r\n/g, '\n') === this.lastCopy.text) {
+        this.pasteCopiedCells(this.lastCopy, range);
+        return;
+      }
+
       // Parse the clipboard data more carefully
       const lines = text.split('\n');
 
@@ -112,29 +151,84 @@ export class ClipboardService {
         }
         pasteData.push(rowData);
       }
-      const pasteRange = {
-        start: range.start,
-        end: { row: range.start.row + pasteHeight - 1, col: range.start.col + pasteWidth - 1 }
-      };
-
-      this.dataService.updateCellValues(pasteRange.start.row, pasteRange.start.col, pasteData);
-
-      // Clear marching ants/copy highlight
-      this.stateService.setMarchingAnts(false);
-      this.stateService.updateCopyHighlight({
-        start: { row: -1, col: -1 },
-        end: { row: -1, col: -1 }
-      });
-
-      // Update current selection to reflect the paste region
-      this.stateService.updateSelection(pasteRange);
-      this.renderService.requestRender();
+      this.applyPaste(range.start, pasteData);
 
     } catch (err) {
       console.error('Failed to paste data:', err);
     }
   }
 
+  /**
+   * Pastes cells copied from the sheet, tiling them over the selection like `paste`.
+   * Each formula moves by the distance between the cell it came from and where it lands.
+   */
+  private pasteCopiedCells(copied: CopiedCells, range: Range) {
+    const copyHeight = copied.inputs.length;
+    const copyWidth = copied.inputs[0].length;
+    const selectionHeight = range.end.row - range.start.row + 1;
+    const selectionWidth = range.end.col - range.start.col + 1;
+    const isSingleCell = selectionHeight === 1 && selectionWidth === 1;
+    const pasteHeight = isSingleCell ? copyHeight : selectionHeight;
+    const pasteWidth = isSingleCell ? copyWidth : selectionWidth;
+
+    const pasteData: CopiedCells['inputs'] = [];
+    for (let row = 0; row < pasteHeight; row++) {
+      const rowData: CopiedCells['inputs'][number] = [];
+      for (let col = 0; col < pasteWidth; col++) {
+        const copyRow = row % copyHeight;
+        const copyCol = col % copyWidth;
+        const input = copied.inputs[copyRow][copyCol];
+        const rowOffset = range.start.row + row - copied.rows[copyRow];
+        const colOffset = range.start.col + col - copied.cols[copyCol];
+        rowData.push(typeof input === 'string' ? shiftFormula(input, rowOffset, colOffset) : input);
+      }
+      pasteData.push(rowData);
+    }
+    this.applyPaste(range.start, pasteData);
+  }
+
+  private applyPaste(start: { row: number; col: number }, pasteData: CopiedCells['inputs']) {
+    const pasteRange = {
+      start,
+      end: { row: start.row + pasteData.length - 1, col: start.col + pasteData[0].length - 1 }
+    };
+
+    const label = `Paste ${pasteData.length}×${pasteData[0].length} at ${toA1(start.row, start.col)}`;
+    this.dataService.updateCellValues(pasteRange.start.row, pasteRange.start.col, pasteData, true, { label });
+
+    // Clear marching ants/copy highlight
+    this.stateService.setMarchingAnts(false);
+    this.stateService.updateCopyHighlight({
+      start: { row: -1, col: -1 },
+      end: { row: -1, col: -1 }
+    });
+
+    // Update current selection to reflect the paste region
+    this.stateService.updateSelection(pasteRange);
+    this.renderService.requestRender();
+  }
+
+  /**
+   * The rows and columns to copy, or null when the ranges can't form one block.
+   */
+  private getCopyBlock(ranges: Range[]): { rows: number[]; cols: number[] } | null {
+    const indexes = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+    // Sorted indexes covered by any of the ranges along one axis
+    const union = (spans: [number, number][]) =>
+      [...new Set(spans.flatMap(([from, to]) => indexes(from, to)))].sort((a, b) => a - b);
+
+    const [first] = ranges;
+    const sameRows = ranges.every(r => r.start.row === first.start.row && r.end.row === first.end.row);
+    const sameCols = ranges.every(r => r.start.col === first.start.col && r.end.col === first.end.col);
+    if (sameRows) {
+      return { rows: indexes(first.start.row, first.end.row), cols: union(ranges.map(r => [r.start.col, r.end.col])) };
+    }
+    if (sameCols) {
+      return { rows: union(ranges.map(r => [r.start.row, r.end.row])), cols: indexes(first.start.col, first.end.col) };
+    }
+    return null;
+  }
+
   /**
    * Parses a CSV line, handling quoted values properly
    */
@@ -0,0 +1,193 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { Subject, takeUntil } from 'rxjs';
+import { Cell, CellStyles, ConditionalFormat, ConditionalFormatRule, Sheet } from '../models/sheet.model';
+import { compareValues, toBoolean, toText } from '../utils/formula-functions.utils';
+import { shiftFormula } from '../utils/formula.utils';
+import { dateToSerial, getCell, normalizeRange, rangeContains } from '../utils/sheet.utils';
+import { overrideStyles } from '../utils/style.utils';
+import { DataService } from './data.service';
+import { cellKey } from './dependency-graph.service';
+import { FormulaService } from './formula.service';
+
+// What top/bottom and duplicate rules compare each cell with, gathered once per range
+interface RangeStats {
+  // Cells at or beyond this value are in the top/bottom N
+  threshold?: number;
+  // How often each value occurs in the range
+  counts?: Map<string, number>;
+}
+
+/**
+ * Evaluates the sheet's conditional formats for the cells being drawn. Results
+ * are worked out when a cell is first asked for and kept until `sheetChanges$`
+ * fires, so only visible cells are evaluated and idle frames cost nothing.
+ */
+@Injectable()
+export class ConditionalFormatService implements OnDestroy {
+  private dataService = inject(DataService);
+  private formulaService = inject(FormulaService);
+
+  private sheet: Sheet | null = null;
+  // Merged overrides of the formats matching each cell; null when none match
+  private overrides = new Map<string, Partial<CellStyles> | null>();
+  private stats = new Map<ConditionalFormat, RangeStats>();
+  private destroy$ = new Subject<void>();
+
+  constructor() {
+    this.dataService.sheetChanges$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.invalidate());
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  invalidate(): void {
+    this.overrides.clear();
+    this.stats.clear();
+  }
+
+  /**
+   * The styles a cell is drawn with once the conditional formats it matches are
+   * applied over `styles`. The stored styles are never changed.
+   */
+  applyFormats(sheet: Sheet, row: number, col: number, cell: Cell | undefined, styles: CellStyles): CellStyles {
+    if (!sheet.conditionalFormats?.length) return styles;
+    if (sheet !== this.sheet) {
+      this.sheet = sheet;
+      this.invalidate();
+    }
+    const key = cellKey(row, col);
+    let overrides = this.overrides.get(key);
+    if (overrides === undefined) {
+      overrides = this.evaluateCell(sheet, row, col, cell);
+      this.overrides.set(key, overrides);
+    }
+    return overrides ? overrideStyles(styles, overrides) : styles;
+  }
+
+  private evaluateCell(sheet: Sheet, row: number, col: number, cell: Cell | undefined): Partial<CellStyles> | null {
+    let overrides: Partial<CellStyles> | null = null;
+    for (const format of sheet.conditionalFormats!) {
+      const range = normalizeRange(format.range);
+      if (!rangeContains(range, row, col) || !this.matches(sheet, format, row, col, cell)) continue;
+      // Earlier formats keep the properties they set
+      overrides = { ...CellStyles.getSetProperties(format.styles), ...(overrides ?? {}) };
+      if (format.stopIfTrue) break;
+    }
+    return overrides;
+  }
+
+  private matches(sheet: Sheet, format: ConditionalFormat, row: number, col: number, cell: Cell | undefined): boolean {
+    const { rule } = format;
+    const value = cell?.value ?? null;
+    if (rule.type === 'formula') {
+      return this.matchesFormula(sheet, format, rule.formula, row, col);
+    }
+    // Blank cells and formula errors match no value-based rule
+    if (value === null || value === '' || this.formulaService.isErrorValue(value)) return false;
+
+    switch (rule.type) {
+      case 'value':
+        return matchesComparison(rule, value);
+      case 'textContains': {
+        const text = toText(value);
+        return rule.caseSensitive
+          ? text.includes(rule.text)
+          : text.toLowerCase().includes(rule.text.toLowerCase());
+      }
+      case 'top':
+      case 'bottom': {
+        const threshold = this.getStats(sheet, format).threshold;
+        const n = toSortable(value);
+        if (threshold === undefined || n === null) return false;
+        return rule.type === 'top' ? n >= threshold : n <= threshold;
+      }
+      case 'duplicates':
+      case 'unique': {
+        const count = this.getStats(sheet, format).counts?.get(toDuplicateKey(value)) ?? 0;
+        return rule.type === 'duplicates' ? count > 1 : count === 1;
+      }
+    }
+  }
+
+  private matchesFormula(sheet: Sheet, format: ConditionalFormat, formula: string, row: number, col: number): boolean {
+    const { start } = normalizeRange(format.range);
+    const shifted = shiftFormula(formula, row - start.row, col - start.col);
+    return toBoolean(this.formulaService.evaluate(shifted, sheet)) === true;
+  }
+
+  // Values of the whole range, read once per format until the sheet changes
+  private getStats(sheet: Sheet, format: ConditionalFormat): RangeStats {
+    let stats = this.stats.get(format);
+    if (stats) return stats;
+
+    const values: Exclude<Cell['value'], null>[] = [];
+    const { start, end } = normalizeRange(format.range);
+    for (let row = start.row; row <= end.row; row++) {
+      for (let col = start.col; col <= end.col; col++) {
+        const value = getCell(sheet, row, col)?.value ?? null;
+        if (value !== null && value !== '' && !this.formulaService.isErrorValue(value)) {
+          values.push(value);
+        }
+      }
+    }
+
+    const { rule } = format;
+    stats = {};
+    if (rule.type === 'top' || rule.type === 'bottom') {
+      const numbers = values
+        .map(toSortable)
+        .filter((n): n is number => n !== null)
+        .sort((a, b) => rule.type === 'top' ? b - a : a - b);
+      const count = rule.percent ? Math.floor(numbers.length * rule.count / 100) : Math.floor(rule.count);
+      // Ties with the last value taken are in as well
+      if (numbers.length > 0 && count > 0) {
+        stats.threshold = numbers[Math.min(count, numbers.length) - 1];
+      }
+    } else if (rule.type === 'duplicates' || rule.type === 'unique') {
+      stats.counts = new Map();
+      for (const value of values) {
+        const key = toDuplicateKey(value);
+        stats.counts.set(key, (stats.counts.get(key) ?? 0) + 1);
+      }
+    }
+    this.stats.set(format, stats);
+    return stats;
+  }
+}
+
+function matchesComparison(rule: Extract<ConditionalFormatRule, { type: 'value' }>, value: Exclude<Cell['value'], null>): boolean {
+  const comparison = compareValues(value, rule.value);
+  switch (rule.operator) {
+    case '>': return comparison > 0;
+    case '>=': return comparison >= 0;
+    case '<': return comparison < 0;
+    case '<=': return comparison <= 0;
+    case '=': return comparison === 0;
+    case '<>': return comparison !== 0;
+    case 'between':
+    case 'notBetween': {
+      const other = compareValues(value, rule.value2 ?? rule.value);
+      // The bounds may be given in either order
+      const between = (comparison >= 0 && other <= 0) || (comparison <= 0 && other >= 0);
+      return rule.operator === 'between' ? between : !between;
+    }
+  }
+}
+
+// Numbers and dates rank in top/bottom rules; text and booleans don't
+function toSortable(value: Exclude<Cell['value'], null>): number | null {
+  if (typeof value === 'number') return value;
+  if (value instanceof Date) return dateToSerial(value);
+  return null;
+}
+
+// Duplicates are found ignoring case, with a date equal to its serial number
+function toDuplicateKey(value: Exclude<Cell['value'], null>): string {
+  if (typeof value === 'string') return `s:${value.toLowerCase()}`;
+  if (typeof value === 'boolean') return `b:${value}`;
+  return `n:${toSortable(value)}`;
+}
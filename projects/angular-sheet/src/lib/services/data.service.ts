@@ -1,26 +1,112 @@
 // apps/cms-frontend/src/app/shared/components/sheet/services/data.service.ts
 
 import { Injectable, inject } from '@angular/core';
-import { BehaviorSubject } from 'rxjs';
-import { Sheet } from '../models/sheet.model';
-import { UndoRedoService } from './undo-redo.service';
+import { BehaviorSubject, Subject } from 'rxjs';
+import {
+  Sheet,
+  Range,
+  Cell,
+  CellStyles,
+  StructureChange,
+  RowStyle,
+  ColumnStyle,
+  OutlineGroup,
+  NamedRange,
+  ConditionalFormat
+} from '../models/sheet.model';
+import { StoredCell } from '../models/cell-store.model';
+import { UndoRedoService, HistoryCommand } from './undo-redo.service';
+import { FormulaService } from './formula.service';
+import { LayoutService } from './layout.service';
+import { WorkbookService } from './workbook.service';
+import { adjustFormulaForStructureChange, isValidRangeName, shiftFormula } from '../utils/formula.utils';
+import { cellKey } from './dependency-graph.service';
+import {
+  adjustRangeForStructureChange,
+  adjustSpanForStructureChange,
+  columnIndexToLetter,
+  expandRangeToMerges,
+  getCell,
+  getCellStore,
+  getNamedRange,
+  getOutlineGroups,
+  isInSheet,
+  normalizeRange,
+  rangeToA1,
+  rangesIntersect
+} from '../utils/sheet.utils';
 
-@Injectable({
-  providedIn: 'root'
-})
+// Everything undo/redo needs to put a cell back the way it was
+interface CellSnapshot {
+  row: number;
+  col: number;
+  value: Cell['value'];
+  formula: Cell['formula'];
+  datatype: Cell['datatype'];
+  inputError: Cell['inputError'];
+  styles: CellStyles;
+}
+
+// What deleting rows/columns took away, so undo can put it back
+interface DeletedLines {
+  cells: StoredCell[];
+  sizes: (RowStyle | ColumnStyle)[];
+  // Every formula of the sheet before its references were adjusted
+  formulas: Map<Cell, string>;
+  // Formulas of other workbook sheets that referred to the moved or deleted cells, as they were
+  externalFormulas?: Map<Cell, string>;
+  frozen?: number;
+  merges?: Range[];
+  groups?: OutlineGroup[];
+  names?: NamedRange[];
+  conditionalFormats?: ConditionalFormat[];
+}
+
+// Outline groups and hidden flags of one axis, so outline changes can be undone
+interface OutlineSnapshot {
+  groups?: OutlineGroup[];
+  hidden: boolean[];
+}
+
+export interface CellHistoryOptions {
+  // Label shown in the history (defaults to "Edit <range>")
+  label?: string;
+  // Edits sharing a key are merged into a single undo step
+  mergeKey?: string;
+}
+
+@Injectable()
 export class DataService {
   private sheetData = new BehaviorSubject<Sheet | null>(null);
   private sheetChanges = new BehaviorSubject<Sheet | null>(null);
 
   public sheetData$ = this.sheetData.asObservable();
   public sheetChanges$ = this.sheetChanges.asObservable();
+  private structureChanges = new Subject<StructureChange>();
+  // Rows/columns inserted or deleted, also when undone or redone
+  public structureChanges$ = this.structureChanges.asObservable();
   private undoRedoService = inject(UndoRedoService);
+  private formulaService = inject(FormulaService);
+  private layoutService = inject(LayoutService);
+  private workbook = inject(WorkbookService, { optional: true });
+
+  // Open transaction state: work is collected here until the outermost transaction ends
+  private transactionDepth = 0;
+  private pendingCommands: HistoryCommand[] = [];
+  private pendingCells: { row: number; col: number }[] = [];
+  private pendingEmit = false;
+  private pendingFullRecalc = false;
 
   /**
    * If your app only wants one-time setting of sheet data,
-   * you can keep setSheetData as is. 
+   * you can keep setSheetData as is.
    */
   setSheetData(data: Sheet) {
+    // History refers to the cells of the previous sheet
+    if (data !== this.sheetData.value) {
+      this.undoRedoService.clear();
+    }
+    this.formulaService.recalculate(data);
     this.sheetData.next(data);
   }
 
@@ -32,70 +118,1023 @@ export class DataService {
     this.sheetChanges.next(sheet);
   }
 
+  /**
+   * Calls async functions again instead of reusing their settled results: all
+   * of them, or only the named one (e.g. after the rates behind `=FX(...)` moved).
+   */
+  public refreshAsyncResults(name?: string) {
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet) return;
+    this.formulaService.clearAsyncResults(name);
+    this.commitFullRecalc(currentSheet);
+  }
+
   /**
    * [NEW] Consolidated method to update the entire sheet in one go.
-   * Also captures the old state for Undo/Redo before overwriting.
+   * Undo swaps the previous sheet back in.
    */
   public updateSheet(newSheet: Sheet): void {
     const currentSheet = this.sheetData.value;
-    if (!currentSheet) {
-      this.sheetData.next(newSheet);
-      this.emitSheetChanges(newSheet);
+    this.replaceSheet(newSheet);
+    if (!currentSheet) return;
+
+    this.recordCommand({
+      label: 'Replace sheet',
+      undo: () => this.replaceSheet(currentSheet),
+      redo: () => this.replaceSheet(newSheet)
+    });
+  }
+
+  /**
+   * Runs `fn` as one logical edit: all changes it makes through this service
+   * become a single undo step, and formulas are recalculated and `sheetChanges$`
+   * emits once at the end. Transactions can be nested; the outermost one wins.
+   * `fn` must be synchronous.
+   */
+  public transaction<T>(fn: () => T, label?: string): T {
+    this.transactionDepth++;
+    try {
+      return fn();
+    } finally {
+      this.transactionDepth--;
+      if (this.transactionDepth === 0) {
+        this.flushTransaction(label);
+      }
+    }
+  }
+
+  private flushTransaction(label?: string) {
+    const commands = this.pendingCommands;
+    const changedCells = this.pendingCells;
+    const emit = this.pendingEmit;
+    const fullRecalc = this.pendingFullRecalc;
+    this.pendingCommands = [];
+    this.pendingCells = [];
+    this.pendingEmit = false;
+    this.pendingFullRecalc = false;
+
+    const sheet = this.sheetData.value;
+    if (sheet && fullRecalc) {
+      this.formulaService.recalculate(sheet);
+    } else if (sheet && changedCells.length > 0) {
+      this.formulaService.recalculate(sheet, changedCells);
+    }
+    if (sheet && emit) {
+      this.emitSheetChanges(sheet);
+    }
+
+    if (commands.length === 1) {
+      this.undoRedoService.record(label ? { ...commands[0], label } : commands[0]);
+    } else if (commands.length > 1) {
+      const ranges = commands.map(command => command.range);
+      this.undoRedoService.record({
+        label: label ?? 'Edit',
+        range: ranges.every(range => !!range) ? this.boundingRange(ranges as Range[]) : undefined,
+        // Replaying inside a transaction keeps undo/redo to a single recalculation and emission
+        undo: () => this.transaction(() => [...commands].reverse().forEach(command => command.undo())),
+        redo: () => this.transaction(() => commands.forEach(command => command.redo()))
+      });
+    }
+  }
+
+  private boundingRange(ranges: Range[]): Range {
+    return ranges.map(range => normalizeRange(range)).reduce((bounds, range) => ({
+      start: {
+        row: Math.min(bounds.start.row, range.start.row),
+        col: Math.min(bounds.start.col, range.start.col)
+      },
+      end: {
+        row: Math.max(bounds.end.row, range.end.row),
+        col: Math.max(bounds.end.col, range.end.col)
+      }
+    }));
+  }
+
+  // Records a command, or holds it back for the open transaction
+  private recordCommand(command: HistoryCommand) {
+    if (this.transactionDepth > 0) {
+      this.pendingCommands.push(command);
+    } else {
+      this.undoRedoService.record(command);
+    }
+  }
+
+  // Recalculates dependents of the changed cells and emits, or defers both to the open transaction
+  private commitChanges(sheet: Sheet, changedCells: { row: number; col: number }[]) {
+    if (this.transactionDepth > 0) {
+      this.pendingCells.push(...changedCells);
+      this.pendingEmit = true;
       return;
     }
-    this.undoRedoService.captureSheetState(currentSheet);
+    if (changedCells.length > 0) {
+      // Only formulas depending on the edited cells are re-evaluated
+      this.formulaService.recalculate(sheet, changedCells);
+    }
+    this.emitSheetChanges(sheet);
+  }
+
+  // Cells have moved, so every formula is re-evaluated against a rebuilt dependency graph.
+  // Returns the formulas of other workbook sheets as they were before being adjusted.
+  private commitStructureChange(
+    sheet: Sheet,
+    change: StructureChange,
+    externalFormulas?: Map<Cell, string>
+  ): Map<Cell, string> | undefined {
+    // Formulas on other sheets of the workbook may point into the moved rows/columns;
+    // undoing a deletion puts back the ones it rewrote instead
+    let previous: Map<Cell, string> | undefined;
+    if (externalFormulas) {
+      this.workbook?.restoreReferences(externalFormulas);
+    } else {
+      previous = this.workbook?.adjustReferences(sheet, change);
+    }
+    this.structureChanges.next(change);
+    this.commitFullRecalc(sheet);
+    return previous;
+  }
+
+  // Recalculates every formula and emits, or defers both to the open transaction
+  private commitFullRecalc(sheet: Sheet) {
+    if (this.transactionDepth > 0) {
+      this.pendingFullRecalc = true;
+      this.pendingEmit = true;
+      return;
+    }
+    this.formulaService.recalculate(sheet);
+    this.emitSheetChanges(sheet);
+  }
 
-    this.sheetData.next(newSheet);
-    this.emitSheetChanges(newSheet);
+  private replaceSheet(sheet: Sheet) {
+    this.formulaService.recalculate(sheet);
+    this.sheetData.next(sheet);
+    this.emitSheetChanges(sheet);
   }
 
   /**
-   * Method to update a range of cells.
+   * Method to update a range of cells. Text is parsed as each cell's datatype
+   * (see `Cell.handleInput`), following the sheet's `locale`, `inferTypes` and `invalidInput`.
+   * Returns false if any of the input was refused (`invalidInput: 'reject'`).
    */
   public updateCellValues(
     rowStart: number,
     columnStart: number,
     input: string | number | boolean | Date | null | (string | number | boolean | Date | null)[][],
-    recordUndo = true
-  ) {
+    recordUndo = true,
+    history: CellHistoryOptions = {}
+  ): boolean {
 
     const rowEnd = Array.isArray(input) ? rowStart + (input as (string | number | boolean | Date | null)[][]).length - 1 : rowStart;
     const columnEnd = Array.isArray(input) ? columnStart + (input as (string | number | boolean | Date | null)[][])[0].length - 1 : columnStart;
     const currentSheet = this.sheetData.value;
-    if (!currentSheet) return;
+    if (!currentSheet) return false;
     const isSingleValue = typeof input !== 'object';
-    // Capture sheet state for undo
-    if (recordUndo)
-      this.undoRedoService.captureSheetState(currentSheet);
+    const range = { start: { row: rowStart, col: columnStart }, end: { row: rowEnd, col: columnEnd } };
+    // Capture the cells for undo
+    const before = recordUndo ? this.snapshotCells(currentSheet, range) : [];
+    const store = getCellStore(currentSheet);
+    const changedCells: { row: number; col: number }[] = [];
+    const { locale, inferTypes, invalidInput } = currentSheet;
+    let refused = false;
     for (let row = rowStart; row <= rowEnd; row++) {
       for (let col = columnStart; col <= columnEnd; col++) {
-        const cell = currentSheet.cells[row][col];
-        if (cell) {
-          if (isSingleValue) {
-            cell.handleInput(input);
-          } else {
-            const value = (input as (string | number | boolean | Date | null)[][])[row - rowStart][col - columnStart];
-            cell.handleInput(value ?? '');
-          }
+        if (!isInSheet(currentSheet, row, col)) continue;
+        const value = isSingleValue
+          ? input
+          : (input as (string | number | boolean | Date | null)[][])[row - rowStart][col - columnStart] ?? '';
+        // Clearing a position that holds no cell leaves it empty
+        const cell = value === '' || value === null ? store.get(row, col) : store.getOrCreate(row, col);
+        if (!cell) continue;
+        if (cell.handleInput(value ?? '', { locale, inferTypes, invalidInput })) {
+          changedCells.push({ row, col });
+        } else {
+          refused = true;
         }
       }
     }
-    this.emitSheetChanges(currentSheet);
+    // Input that was refused altogether leaves nothing to undo
+    if (recordUndo && changedCells.length > 0) {
+      this.recordCellChanges(currentSheet, range, before, history.label ?? `Edit ${rangeToA1(range)}`, history.mergeKey);
+    }
+    this.commitChanges(currentSheet, changedCells);
+    return !refused;
+  }
+
+  /**
+   * Clears the values of a range, or of several ranges as one undo step. Only
+   * stored cells are visited, so clearing whole columns of a large sheet is cheap.
+   */
+  public clearRange(range: Range | Range[], label?: string) {
+    if (Array.isArray(range)) {
+      this.transaction(
+        () => range.forEach(r => this.clearRange(r)),
+        label ?? `Delete ${range.map(r => rangeToA1(r)).join(', ')}`
+      );
+      return;
+    }
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet) return;
+    const target = normalizeRange(range);
+    const before = this.snapshotCells(currentSheet, target);
+    const changedCells: { row: number; col: number }[] = [];
+    const { locale, inferTypes, invalidInput } = currentSheet;
+    getCellStore(currentSheet).forEach((cell, row, col) => {
+      if (cell.handleInput('', { locale, inferTypes, invalidInput })) {
+        changedCells.push({ row, col });
+      }
+    }, target);
+    this.recordCellChanges(currentSheet, target, before, label ?? `Delete ${rangeToA1(target)}`);
+    this.commitChanges(currentSheet, changedCells);
+  }
+
+  /**
+   * Applies style properties to every cell of a range, or of several ranges
+   * as one undo step. Styles objects are replaced, never mutated: cells that
+   * shared a styles object before share the updated one afterwards. Whole
+   * rows or columns are styled as lines (see `updateColumnStyles`), so no
+   * cells are created for their empty positions.
+   */
+  public updateCellStyles(range: Range | Range[], styles: Partial<CellStyles>, recordUndo = true) {
+    if (Array.isArray(range)) {
+      this.transaction(
+        () => range.forEach(r => this.updateCellStyles(r, styles, recordUndo)),
+        `Format ${range.map(r => rangeToA1(r)).join(', ')}`
+      );
+      return;
+    }
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet) return;
+    const target = normalizeRange(range);
+    const label = `Format ${rangeToA1(target)}`;
+    const axis = target.start.row === 0 && target.end.row >= currentSheet.rows.length - 1 ? 'column'
+      : target.start.col === 0 && target.end.col >= currentSheet.columns.length - 1 ? 'row'
+        : null;
+    if (!axis) {
+      this.restyleCells(currentSheet, target, styles, recordUndo, label, null);
+      return;
+    }
+    this.transaction(() => {
+      // Stored cells would otherwise keep their own values of the properties
+      this.restyleCells(currentSheet, target, styles, recordUndo, label, axis);
+      const index = axis === 'row' ? target.start.row : target.start.col;
+      const end = axis === 'row'
+        ? Math.min(target.end.row, currentSheet.rows.length - 1)
+        : Math.min(target.end.col, currentSheet.columns.length - 1);
+      this.setLineStyles(axis, index, end - index + 1, styles, recordUndo);
+    }, label);
   }
 
   /**
-   * autoFillSelection can remain similar if you want partial updates
-   * or adapt it to also call updateSheet at the end.
+   * Restyles every position of a range, or only its stored cells when the range
+   * covers whole lines of `lineAxis` that are styled themselves.
    */
-  autoFillSelection(
+  private restyleCells(
     sheet: Sheet,
-    originalRange: { start: { row: number; col: number }; end: { row: number; col: number } },
-    fillRange: { start: { row: number; col: number }; end: { row: number; col: number } }
+    range: Range,
+    styles: Partial<CellStyles>,
+    recordUndo: boolean,
+    label: string,
+    lineAxis: StructureChange['axis'] | null
   ) {
-    // Example from your existing logic...
-    this.undoRedoService.captureSheetState(sheet);
-    // ... mutate 'sheet' ...
-    this.sheetData.next({ ...sheet });
-    this.emitSheetChanges(sheet);
+    const before = recordUndo ? this.snapshotCells(sheet, range) : [];
+    const store = getCellStore(sheet);
+    const updated = new Map<CellStyles, CellStyles>();
+    const restyle = (cell: Cell) => {
+      let next = updated.get(cell.styles);
+      if (!next) {
+        next = new CellStyles({ ...CellStyles.getSetProperties(cell.styles), ...styles });
+        updated.set(cell.styles, next);
+      }
+      cell.styles = next;
+    };
+
+    if (!lineAxis) {
+      for (let row = range.start.row; row <= range.end.row; row++) {
+        for (let col = range.start.col; col <= range.end.col; col++) {
+          if (isInSheet(sheet, row, col)) restyle(store.getOrCreate(row, col));
+        }
+      }
+    } else {
+      const keys = Object.keys(styles) as (keyof CellStyles)[];
+      const cols = Math.min(range.end.col, sheet.columns.length - 1);
+      // Rows override columns, so where a row sets the property its cells need it themselves
+      if (lineAxis === 'column') {
+        sheet.rows.forEach((line, row) => {
+          if (!keys.some(key => line.styles?.[key] !== undefined)) return;
+          for (let col = range.start.col; col <= cols; col++) store.getOrCreate(row, col);
+        });
+      }
+      store.forEach(restyle, range);
+    }
+    if (recordUndo) {
+      this.recordCellChanges(sheet, range, before, label);
+    }
+    this.commitChanges(sheet, []);
+  }
+
+  /**
+   * Applies style properties to `count` whole columns from `index`. Their cells
+   * inherit them unless a row or the cell itself sets the same property.
+   */
+  public updateColumnStyles(index: number, styles: Partial<CellStyles>, count = 1) {
+    this.setLineStyles('column', index, count, styles);
+  }
+
+  // Applies style properties to whole rows (see updateColumnStyles); rows override columns
+  public updateRowStyles(index: number, styles: Partial<CellStyles>, count = 1) {
+    this.setLineStyles('row', index, count, styles);
+  }
+
+  private setLineStyles(axis: StructureChange['axis'], index: number, count: number, styles: Partial<CellStyles>, recordUndo = true) {
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet || count < 1 || index < 0 || index + count > this.lineCount(currentSheet, axis)) return;
+
+    const lines = this.getLines(currentSheet, axis);
+    const previous = lines.slice(index, index + count).map(line => line.styles);
+    // New objects, since resolved styles are cached by the objects they came from
+    const next = previous.map(current => ({ ...(current && CellStyles.getSetProperties(current)), ...styles }));
+    const apply = (states: (Partial<CellStyles> | undefined)[]) => {
+      states.forEach((lineStyles, offset) => {
+        if (lineStyles) {
+          lines[index + offset].styles = lineStyles;
+        } else {
+          delete lines[index + offset].styles;
+        }
+      });
+      this.commitChanges(currentSheet, []);
+    };
+    apply(next);
+    if (!recordUndo) return;
+    this.recordCommand({
+      label: `Format ${this.describeLines(axis, index, count)}`,
+      undo: () => apply(previous),
+      redo: () => apply(next)
+    });
+  }
+
+  /**
+   * Records a finished column/row resize (the size itself is changed live while dragging).
+   */
+  public commitResize(axis: 'row' | 'column', index: number, previousSize: number) {
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet) return;
+    const getSize = () => axis === 'row' ? currentSheet.rows[index].height : currentSheet.columns[index].width;
+    const setSize = (size: number) => {
+      if (axis === 'row') {
+        currentSheet.rows[index].height = size;
+        this.layoutService.invalidateRows(index);
+      } else {
+        currentSheet.columns[index].width = size;
+        this.layoutService.invalidateColumns(index);
+      }
+      this.commitChanges(currentSheet, []);
+    };
+
+    const newSize = getSize();
+    if (newSize === previousSize) return;
+    this.recordCommand({
+      label: axis === 'row' ? `Resize row ${index + 1}` : `Resize column ${columnIndexToLetter(index)}`,
+      undo: () => setSize(previousSize),
+      redo: () => setSize(newSize)
+    });
+    this.commitChanges(currentSheet, []);
+  }
+
+  /**
+   * Merges a range into one cell that shows the value and style of its
+   * top-left cell. Merged areas it overlaps become part of the new one.
+   */
+  public mergeCells(range: Range) {
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet) return;
+    const merge = expandRangeToMerges(currentSheet, range);
+    if (merge.start.row === merge.end.row && merge.start.col === merge.end.col) return;
+
+    const previous = currentSheet.merges;
+    const merges = [...(previous ?? []).filter(other => !rangesIntersect(other, merge)), merge];
+    this.setMerges(currentSheet, merges);
+    this.recordCommand({
+      label: `Merge ${rangeToA1(merge)}`,
+      range: merge,
+      undo: () => this.setMerges(currentSheet, previous),
+      redo: () => this.setMerges(currentSheet, merges)
+    });
+  }
+
+  // Splits every merged area overlapping the range back into single cells
+  public unmergeCells(range: Range) {
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet?.merges) return;
+    const previous = currentSheet.merges;
+    const merges = previous.filter(merge => !rangesIntersect(merge, range));
+    if (merges.length === previous.length) return;
+
+    this.setMerges(currentSheet, merges);
+    this.recordCommand({
+      label: `Unmerge ${rangeToA1(range)}`,
+      range,
+      undo: () => this.setMerges(currentSheet, previous),
+      redo: () => this.setMerges(currentSheet, merges)
+    });
+  }
+
+  private setMerges(sheet: Sheet, merges: Range[] | undefined) {
+    sheet.merges = merges;
+    this.commitChanges(sheet, []);
+  }
+
+  /**
+   * Defines a name for a range, usable in formulas (`=SUM(Q1Sales)`) and the
+   * Go to box. An existing name is pointed at the new range. Returns false
+   * if the name can't be used in formulas (see `isValidRangeName`).
+   */
+  public defineName(name: string, range: Range): boolean {
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet || !isValidRangeName(name)) return false;
+    const previous = currentSheet.namedRanges;
+    const existing = getNamedRange(currentSheet, name);
+    // Redefining keeps the name as it was first spelled
+    const named = { name: existing?.name ?? name, range: normalizeRange(range) };
+    const names = [...(previous ?? []).filter(other => other !== existing), named];
+    this.setNames(currentSheet, names);
+    this.recordCommand({
+      label: `Define name ${named.name}`,
+      range: named.range,
+      undo: () => this.setNames(currentSheet, previous),
+      redo: () => this.setNames(currentSheet, names)
+    });
+    return true;
+  }
+
+  public deleteName(name: string) {
+    const currentSheet = this.sheetData.value;
+    const existing = currentSheet && getNamedRange(currentSheet, name);
+    if (!currentSheet || !existing) return;
+    const previous = currentSheet.namedRanges;
+    const names = previous!.filter(other => other !== existing);
+    this.setNames(currentSheet, names);
+    this.recordCommand({
+      label: `Delete name ${existing.name}`,
+      undo: () => this.setNames(currentSheet, previous),
+      redo: () => this.setNames(currentSheet, names)
+    });
+  }
+
+  // The range a name stands for, or undefined if the sheet has no such name
+  public getNamedRange(name: string): Range | undefined {
+    const currentSheet = this.sheetData.value;
+    return currentSheet ? getNamedRange(currentSheet, name)?.range : undefined;
+  }
+
+  // The values of a named range, row by row
+  public getNamedRangeValues(name: string): Cell['value'][][] | undefined {
+    const currentSheet = this.sheetData.value;
+    const range = this.getNamedRange(name);
+    if (!currentSheet || !range) return undefined;
+    return Array.from({ length: range.end.row - range.start.row + 1 }, (_, r) =>
+      Array.from({ length: range.end.col - range.start.col + 1 }, (_, c) =>
+        getCell(currentSheet, range.start.row + r, range.start.col + c)?.value ?? null));
+  }
+
+  /**
+   * Writes values into a named range from its top-left cell, as one undo step.
+   * Values beyond the range are left out. Returns false if there is no such name.
+   */
+  public setNamedRangeValues(name: string, values: (string | number | boolean | Date | null)[][]): boolean {
+    const named = this.sheetData.value && getNamedRange(this.sheetData.value, name);
+    if (!named) return false;
+    const { start, end } = named.range;
+    const clipped = values
+      .slice(0, end.row - start.row + 1)
+      .map(row => row.slice(0, end.col - start.col + 1));
+    if (clipped.length === 0 || clipped[0].length === 0) return true;
+    this.updateCellValues(start.row, start.col, clipped, true, { label: `Edit ${named.name}` });
+    return true;
+  }
+
+  // Formulas resolve names when they are evaluated, so every formula is recalculated
+  private setNames(sheet: Sheet, names: NamedRange[] | undefined) {
+    sheet.namedRanges = names?.length ? names : undefined;
+    this.commitFullRecalc(sheet);
+  }
+
+  /**
+   * Adds a conditional format after the sheet's others, so formats already
+   * there win where they set the same style property.
+   */
+  public addConditionalFormat(format: ConditionalFormat) {
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet) return;
+    const previous = currentSheet.conditionalFormats;
+    const formats = [...(previous ?? []), { ...format, range: normalizeRange(format.range) }];
+    this.setConditionalFormats(currentSheet, formats);
+    this.recordCommand({
+      label: `Add conditional format ${rangeToA1(format.range)}`,
+      range: format.range,
+      undo: () => this.setConditionalFormats(currentSheet, previous),
+      redo: () => this.setConditionalFormats(currentSheet, formats)
+    });
+  }
+
+  // Removes every conditional format whose range overlaps the given one
+  public removeConditionalFormats(range: Range) {
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet?.conditionalFormats) return;
+    const previous = currentSheet.conditionalFormats;
+    const formats = previous.filter(format => !rangesIntersect(normalizeRange(format.range), normalizeRange(range)));
+    if (formats.length === previous.length) return;
+
+    this.setConditionalFormats(currentSheet, formats);
+    this.recordCommand({
+      label: `Clear conditional formats ${rangeToA1(range)}`,
+      range,
+      undo: () => this.setConditionalFormats(currentSheet, previous),
+      redo: () => this.setConditionalFormats(currentSheet, formats)
+    });
+  }
+
+  private setConditionalFormats(sheet: Sheet, formats: ConditionalFormat[] | undefined) {
+    sheet.conditionalFormats = formats?.length ? formats : undefined;
+    this.commitChanges(sheet, []);
+  }
+
+  /**
+   * Inserts `count` empty rows before `index`. Cells, sizes, formula references,
+   * frozen rows and the selection move along with the rows that shift down.
+   */
+  public insertRows(index: number, count = 1) {
+    this.insertLines('row', index, count);
+  }
+
+  // Inserts `count` empty columns before `index` (see insertRows)
+  public insertColumns(index: number, count = 1) {
+    this.insertLines('column', index, count);
+  }
+
+  /**
+   * Deletes `count` rows from `index`. References to deleted cells become `#REF!`;
+   * undo brings back the rows and the formulas as they were.
+   */
+  public deleteRows(index: number, count = 1) {
+    this.deleteLines('row', index, count);
+  }
+
+  // Deletes `count` columns from `index` (see deleteRows)
+  public deleteColumns(index: number, count = 1) {
+    this.deleteLines('column', index, count);
+  }
+
+  /**
+   * Hides `count` rows from `index`. Their cells keep their data (formulas
+   * still use it); the rows just aren't shown.
+   */
+  public hideRows(index: number, count = 1) {
+    this.setLinesHidden('row', index, count, true);
+  }
+
+  public unhideRows(index: number, count = 1) {
+    this.setLinesHidden('row', index, count, false);
+  }
+
+  // Hides `count` columns from `index` (see hideRows)
+  public hideColumns(index: number, count = 1) {
+    this.setLinesHidden('column', index, count, true);
+  }
+
+  public unhideColumns(index: number, count = 1) {
+    this.setLinesHidden('column', index, count, false);
+  }
+
+  private setLinesHidden(axis: StructureChange['axis'], index: number, count: number, hidden: boolean) {
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet || count < 1 || index < 0 || index + count > this.lineCount(currentSheet, axis)) return;
+
+    const lines = this.getLines(currentSheet, axis);
+    const previous = lines.slice(index, index + count).map(line => !!line.hidden);
+    if (previous.every(wasHidden => wasHidden === hidden)) return;
+
+    const apply = (states: boolean[]) => {
+      states.forEach((isHidden, offset) => this.setHidden(lines[index + offset], isHidden));
+      this.invalidateLayout(axis, index);
+      this.commitChanges(currentSheet, []);
+    };
+    const next = previous.map(() => hidden);
+    apply(next);
+    this.recordCommand({
+      label: `${hidden ? 'Hide' : 'Unhide'} ${this.describeLines(axis, index, count)}`,
+      undo: () => apply(previous),
+      redo: () => apply(next)
+    });
+  }
+
+  private setHidden(line: { hidden?: boolean }, hidden: boolean) {
+    if (hidden) {
+      line.hidden = true;
+    } else {
+      delete line.hidden;
+    }
+  }
+
+  /**
+   * Groups rows `start`..`end` (inclusive) into an outline group that can be
+   * collapsed. Groups nest, but can't partly overlap each other: returns false
+   * for a group that would, is already there or lies outside the sheet.
+   */
+  public groupRows(start: number, end: number): boolean {
+    return this.addGroup('row', start, end);
+  }
+
+  public groupColumns(start: number, end: number): boolean {
+    return this.addGroup('column', start, end);
+  }
+
+  // Removes the groups lying within `start`..`end`, or else the innermost group around them
+  public ungroupRows(start: number, end: number) {
+    this.removeGroups('row', start, end);
+  }
+
+  public ungroupColumns(start: number, end: number) {
+    this.removeGroups('column', start, end);
+  }
+
+  /**
+   * Collapses the outline group spanning exactly `start`..`end`, hiding its
+   * rows/columns, or expands it again. Expanding leaves collapsed groups
+   * nested inside it collapsed.
+   */
+  public setGroupCollapsed(axis: StructureChange['axis'], start: number, end: number, collapsed: boolean) {
+    const label = `${collapsed ? 'Collapse' : 'Expand'} ${this.describeLines(axis, start, end - start + 1)}`;
+    this.updateOutline(axis, label, sheet => {
+      const groups = getOutlineGroups(sheet, axis);
+      const group = groups.find(other => other.start === start && other.end === end);
+      if (!group || !!group.collapsed === collapsed) return false;
+
+      if (collapsed) {
+        group.collapsed = true;
+        const lines = this.getLines(sheet, axis);
+        for (let i = start; i <= end; i++) this.setHidden(lines[i], true);
+      } else {
+        delete group.collapsed;
+        this.showGroupLines(sheet, axis, group, groups);
+      }
+      return true;
+    });
+  }
+
+  private addGroup(axis: StructureChange['axis'], start: number, end: number): boolean {
+    return this.updateOutline(axis, `Group ${this.describeLines(axis, start, end - start + 1)}`, sheet => {
+      if (start < 0 || end < start || end >= this.lineCount(sheet, axis)) return false;
+      const groups = getOutlineGroups(sheet, axis);
+      if (groups.some(group => group.start === start && group.end === end)) return false;
+      const overlapsPartly = groups.some(group =>
+        group.start <= end && group.end >= start &&
+        !(group.start <= start && group.end >= end) && !(start <= group.start && end >= group.end));
+      if (overlapsPartly) return false;
+      this.setGroups(sheet, axis, [...groups, { start, end }]);
+      return true;
+    });
+  }
+
+  private removeGroups(axis: StructureChange['axis'], start: number, end: number) {
+    this.updateOutline(axis, `Ungroup ${this.describeLines(axis, start, end - start + 1)}`, sheet => {
+      const groups = getOutlineGroups(sheet, axis);
+      const within = groups.filter(group => group.start >= start && group.end <= end);
+      const innermost = groups
+        .filter(group => group.start <= start && group.end >= end)
+        .sort((a, b) => (a.end - a.start) - (b.end - b.start))
+        .slice(0, 1);
+      const removed = within.length > 0 ? within : innermost;
+      if (removed.length === 0) return false;
+
+      const remaining = groups.filter(group => !removed.includes(group));
+      this.setGroups(sheet, axis, remaining);
+      // Rows/columns of a collapsed group come back, unless another collapsed group still hides them
+      removed.filter(group => group.collapsed).forEach(group => this.showGroupLines(sheet, axis, group, remaining));
+      return true;
+    });
+  }
+
+  // Shows the rows/columns of a group, except those inside other collapsed groups
+  private showGroupLines(sheet: Sheet, axis: StructureChange['axis'], group: OutlineGroup, groups: OutlineGroup[]) {
+    const lines = this.getLines(sheet, axis);
+    const collapsed = groups.filter(other => other !== group && other.collapsed);
+    for (let i = group.start; i <= group.end; i++) {
+      if (!collapsed.some(other => i >= other.start && i <= other.end)) {
+        this.setHidden(lines[i], false);
+      }
+    }
+  }
+
+  // Runs an outline change (`update` returns false if nothing changed) as one undo step
+  private updateOutline(axis: StructureChange['axis'], label: string, update: (sheet: Sheet) => boolean): boolean {
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet) return false;
+    const before = this.snapshotOutline(currentSheet, axis);
+    if (!update(currentSheet)) return false;
+
+    const after = this.snapshotOutline(currentSheet, axis);
+    this.invalidateLayout(axis, 0);
+    this.commitChanges(currentSheet, []);
+    this.recordCommand({
+      label,
+      undo: () => this.restoreOutline(currentSheet, axis, before),
+      redo: () => this.restoreOutline(currentSheet, axis, after)
+    });
+    return true;
+  }
+
+  private snapshotOutline(sheet: Sheet, axis: StructureChange['axis']): OutlineSnapshot {
+    const groups = axis === 'row' ? sheet.rowGroups : sheet.columnGroups;
+    return {
+      groups: groups?.map(group => ({ ...group })),
+      hidden: this.getLines(sheet, axis).map(line => !!line.hidden)
+    };
+  }
+
+  private restoreOutline(sheet: Sheet, axis: StructureChange['axis'], snapshot: OutlineSnapshot) {
+    this.setGroups(sheet, axis, snapshot.groups?.map(group => ({ ...group })));
+    this.getLines(sheet, axis).forEach((line, i) => this.setHidden(line, snapshot.hidden[i]));
+    this.invalidateLayout(axis, 0);
+    this.commitChanges(sheet, []);
+  }
+
+  private setGroups(sheet: Sheet, axis: StructureChange['axis'], groups: OutlineGroup[] | undefined) {
+    const value = groups?.length ? groups : undefined;
+    if (axis === 'row') {
+      sheet.rowGroups = value;
+    } else {
+      sheet.columnGroups = value;
+    }
+  }
+
+  private getLines(sheet: Sheet, axis: StructureChange['axis']): (RowStyle | ColumnStyle)[] {
+    return axis === 'row' ? sheet.rows : sheet.columns;
+  }
+
+  private insertLines(axis: StructureChange['axis'], index: number, count: number) {
+    const currentSheet = this.sheetData.value;
+    if (!currentSheet || count < 1 || index < 0 || index > this.lineCount(currentSheet, axis)) return;
+
+    const insert = () => {
+      const change = { axis, index, count };
+      this.insertLinesAt(currentSheet, change);
+      this.adjustFormulas(currentSheet, change);
+      this.commitStructureChange(currentSheet, change);
+    };
+    insert();
+    this.recordCommand({
+      label: `Insert ${this.describeLines(axis, index, count)}`,
+      undo: () => this.removeLines(currentSheet, axis, index, count),
+      redo: insert
+    });
+  }
+
+  private deleteLines(axis: StructureChange['axis'], index: number, count: number) {
+    const currentSheet = this.sheetData.value;
+    // At least one row/column always remains
+    if (!currentSheet || count < 1 || index < 0 || index + count > this.lineCount(currentSheet, axis)) return;
+    if (count === this.lineCount(currentSheet, axis)) return;
+
+    let deleted = this.removeLines(currentSheet, axis, index, count);
+    this.recordCommand({
+      label: `Delete ${this.describeLines(axis, index, count)}`,
+      undo: () => this.restoreLines(currentSheet, axis, index, deleted),
+      redo: () => deleted = this.removeLines(currentSheet, axis, index, count)
+    });
+  }
+
+  private removeLines(sheet: Sheet, axis: StructureChange['axis'], index: number, count: number): DeletedLines {
+    const store = getCellStore(sheet);
+    const change = { axis, index, count: -count };
+    const formulas = new Map<Cell, string>();
+    store.forEach(cell => {
+      if (cell.formula) formulas.set(cell, cell.formula);
+    });
+    const frozen = axis === 'row' ? sheet.frozenRows : sheet.frozenColumns;
+    const merges = sheet.merges;
+    const groups = axis === 'row' ? sheet.rowGroups : sheet.columnGroups;
+    const names = sheet.namedRanges;
+    const conditionalFormats = sheet.conditionalFormats;
+
+    const cells = store.remove(axis, index, count);
+    const sizes = axis === 'row' ? sheet.rows.splice(index, count) : sheet.columns.splice(index, count);
+    if (frozen) {
+      // Frozen rows/columns that were deleted are no longer frozen
+      const remaining = frozen - Math.max(0, Math.min(frozen, index + count) - index);
+      this.setFrozen(sheet, axis, remaining);
+    }
+    this.invalidateLayout(axis, index);
+    this.adjustMerges(sheet, change);
+    this.adjustGroups(sheet, change);
+    this.adjustNames(sheet, change);
+    this.adjustConditionalFormats(sheet, change);
+    this.adjustFormulas(sheet, change);
+    const externalFormulas = this.commitStructureChange(sheet, change);
+    return { cells, sizes, formulas, externalFormulas, frozen, merges, groups, names, conditionalFormats };
+  }
+
+  private restoreLines(sheet: Sheet, axis: StructureChange['axis'], index: number, deleted: DeletedLines) {
+    const store = getCellStore(sheet);
+    const change = { axis, index, count: deleted.sizes.length };
+    this.insertLinesAt(sheet, change, deleted.sizes);
+    this.setFrozen(sheet, axis, deleted.frozen);
+    sheet.merges = deleted.merges;
+    sheet.namedRanges = deleted.names;
+    sheet.conditionalFormats = deleted.conditionalFormats;
+    this.setGroups(sheet, axis, deleted.groups);
+    deleted.cells.forEach(({ row, col, cell }) => store.set(row, col, cell));
+    // References that became #REF! can't be shifted back, so formulas are restored as they were
+    deleted.formulas.forEach((formula, cell) => cell.formula = formula);
+    this.commitStructureChange(sheet, change, deleted.externalFormulas);
+  }
+
+  // Moves cells and sizes to make room; new rows/columns take the size of their neighbour
+  private insertLinesAt(sheet: Sheet, change: StructureChange, sizes?: (RowStyle | ColumnStyle)[]) {
+    const { axis, index, count } = change;
+    const newSizes = <T extends { hidden?: boolean }>(lines: T[]): T[] =>
+      Array.from({ length: count }, () => {
+        // Inserted next to a hidden row/column, the new ones are shown all the same
+        const size = { ...(lines[index - 1] ?? lines[index]) };
+        delete size.hidden;
+        return size;
+      });
+
+    getCellStore(sheet).insert(axis, index, count);
+    if (axis === 'row') {
+      sheet.rows.splice(index, 0, ...(sizes as RowStyle[] ?? newSizes(sheet.rows)));
+    } else {
+      sheet.columns.splice(index, 0, ...(sizes as ColumnStyle[] ?? newSizes(sheet.columns)));
+    }
+    const frozen = axis === 'row' ? sheet.frozenRows : sheet.frozenColumns;
+    if (frozen && index < frozen) {
+      this.setFrozen(sheet, axis, frozen + count);
+    }
+    this.invalidateLayout(axis, index);
+    this.adjustMerges(sheet, change);
+    this.adjustGroups(sheet, change);
+    this.adjustNames(sheet, change);
+    this.adjustConditionalFormats(sheet, change);
+  }
+
+  // Merged areas move and resize with their cells; ones left with a single cell are dropped
+  private adjustMerges(sheet: Sheet, change: StructureChange) {
+    if (!sheet.merges) return;
+    sheet.merges = sheet.merges
+      .map(merge => adjustRangeForStructureChange(merge, change))
+      .filter((merge): merge is Range =>
+        !!merge && (merge.start.row !== merge.end.row || merge.start.col !== merge.end.col));
+  }
+
+  // Named ranges move and resize like merged areas; names whose cells were all deleted are dropped
+  private adjustNames(sheet: Sheet, change: StructureChange) {
+    if (!sheet.namedRanges) return;
+    const names = sheet.namedRanges
+      .map(named => ({ ...named, range: adjustRangeForStructureChange(named.range, change) }))
+      .filter((named): named is NamedRange => !!named.range);
+    sheet.namedRanges = names.length ? names : undefined;
+  }
+
+  // Conditional formats move and resize like named ranges, and the references of their formulas move with them
+  private adjustConditionalFormats(sheet: Sheet, change: StructureChange) {
+    if (!sheet.conditionalFormats) return;
+    const scope = { local: true, sheet: this.workbook?.getSheetName(sheet) };
+    const formats: ConditionalFormat[] = [];
+    sheet.conditionalFormats.forEach(format => {
+      const range = adjustRangeForStructureChange(format.range, change);
+      if (!range) return;
+      const rule = format.rule.type === 'formula'
+        ? { ...format.rule, formula: adjustFormulaForStructureChange(format.rule.formula, change, scope) }
+        : format.rule;
+      formats.push({ ...format, range, rule });
+    });
+    sheet.conditionalFormats = formats.length ? formats : undefined;
+  }
+
+  // Outline groups along the changed axis move and resize too; ones that end up the same as another are dropped
+  private adjustGroups(sheet: Sheet, change: StructureChange) {
+    const groups: OutlineGroup[] = [];
+    getOutlineGroups(sheet, change.axis).forEach(group => {
+      const span = adjustSpanForStructureChange(group.start, group.end, change);
+      if (span && !groups.some(other => other.start === span.start && other.end === span.end)) {
+        groups.push({ ...group, ...span });
+      }
+    });
+    this.setGroups(sheet, change.axis, groups);
+  }
+
+  private adjustFormulas(sheet: Sheet, change: StructureChange) {
+    // In a workbook, references qualified with the sheet's own name move too
+    const scope = { local: true, sheet: this.workbook?.getSheetName(sheet) };
+    getCellStore(sheet).forEach(cell => {
+      if (cell.formula) {
+        cell.formula = adjustFormulaForStructureChange(cell.formula, change, scope);
+      }
+    });
+  }
+
+  private setFrozen(sheet: Sheet, axis: StructureChange['axis'], frozen: number | undefined) {
+    if (axis === 'row') {
+      sheet.frozenRows = frozen;
+    } else {
+      sheet.frozenColumns = frozen;
+    }
+  }
+
+  private invalidateLayout(axis: StructureChange['axis'], index: number) {
+    if (axis === 'row') {
+      this.layoutService.invalidateRows(index);
+    } else {
+      this.layoutService.invalidateColumns(index);
+    }
+  }
+
+  private lineCount(sheet: Sheet, axis: StructureChange['axis']): number {
+    return axis === 'row' ? sheet.rows.length : sheet.columns.length;
+  }
+
+  // "row 3", "rows 3-5", "column C", "columns C:E"
+  private describeLines(axis: StructureChange['axis'], index: number, count: number): string {
+    if (axis === 'row') {
+      return count === 1 ? `row ${index + 1}` : `rows ${index + 1}-${index + count}`;
+    }
+    const first = columnIndexToLetter(index);
+    return count === 1 ? `column ${first}` : `columns ${first}:${columnIndexToLetter(index + count - 1)}`;
+  }
+
+  /**
+   * Fills `fillRange` by repeating the cells of `originalRange`.
+   * Formulas are copied with their relative references moved along.
+   */
+  autoFillSelection(sheet: Sheet, originalRange: Range, fillRange: Range) {
+    const source = normalizeRange(originalRange);
+    const target = normalizeRange(fillRange);
+    const sourceHeight = source.end.row - source.start.row + 1;
+    const sourceWidth = source.end.col - source.start.col + 1;
+    // Modulo that stays positive when filling up/left of the source
+    const wrap = (n: number, size: number) => ((n % size) + size) % size;
+
+    const values: (string | number | boolean | Date | null)[][] = [];
+    for (let row = target.start.row; row <= target.end.row; row++) {
+      const rowValues: (string | number | boolean | Date | null)[] = [];
+      for (let col = target.start.col; col <= target.end.col; col++) {
+        const sourceRow = source.start.row + wrap(row - source.start.row, sourceHeight);
+        const sourceCol = source.start.col + wrap(col - source.start.col, sourceWidth);
+        const cell = getCell(sheet, sourceRow, sourceCol);
+        rowValues.push(cell?.formula
+          ? shiftFormula(cell.formula, row - sourceRow, col - sourceCol)
+          : cell?.value ?? '');
+      }
+      values.push(rowValues);
+    }
+    this.updateCellValues(target.start.row, target.start.col, values, true, { label: `Fill ${rangeToA1(target)}` });
+  }
+
+  // Only stored cells are captured; positions missing from a snapshot were empty
+  private snapshotCells(sheet: Sheet, range: Range): CellSnapshot[] {
+    const snapshots: CellSnapshot[] = [];
+    getCellStore(sheet).forEach((cell, row, col) => {
+      snapshots.push({
+        row,
+        col,
+        value: cell.value,
+        formula: cell.formula,
+        datatype: cell.datatype,
+        inputError: cell.inputError,
+        // Styles are never mutated in place, so the reference is enough
+        styles: cell.styles
+      });
+    }, normalizeRange(range));
+    return snapshots;
+  }
+
+  private restoreCells(sheet: Sheet, range: Range, snapshots: CellSnapshot[]) {
+    const store = getCellStore(sheet);
+    // Cells that did not exist when the snapshot was taken are removed again
+    const kept = new Set(snapshots.map(snapshot => cellKey(snapshot.row, snapshot.col)));
+    const removed: { row: number; col: number }[] = [];
+    store.forEach((_, row, col) => {
+      if (!kept.has(cellKey(row, col))) removed.push({ row, col });
+    }, normalizeRange(range));
+    removed.forEach(({ row, col }) => store.delete(row, col));
+
+    for (const snapshot of snapshots) {
+      const cell = store.getOrCreate(snapshot.row, snapshot.col);
+      cell.value = snapshot.value;
+      cell.formula = snapshot.formula;
+      cell.datatype = snapshot.datatype;
+      cell.inputError = snapshot.inputError;
+      cell.styles = snapshot.styles;
+    }
+    this.commitChanges(sheet, [...snapshots, ...removed]);
+  }
+
+  private recordCellChanges(sheet: Sheet, range: Range, before: CellSnapshot[], label: string, mergeKey?: string) {
+    const after = this.snapshotCells(sheet, range);
+    this.recordCommand({
+      label,
+      range,
+      mergeKey,
+      undo: () => this.restoreCells(sheet, range, before),
+      redo: () => this.restoreCells(sheet, range, after)
+    });
   }
 }
@@ -0,0 +1,235 @@
+import { Injectable } from '@angular/core';
+import { Range } from '../models/sheet.model';
+import { isSameSheetName } from '../utils/formula.utils';
+
+export type CellPosition = { row: number; col: number };
+
+// A range read from another sheet of the workbook, by sheet name
+export interface SheetRange {
+  sheet: string;
+  range: Range;
+}
+
+// What a formula cell reads: single cells and whole ranges, plus anything on other sheets
+export interface CellPrecedents {
+  cells: CellPosition[];
+  ranges: Range[];
+  sheetRanges?: SheetRange[];
+}
+
+// A strongly connected group of formula cells, in evaluation order
+export interface EvaluationGroup {
+  cells: CellPosition[];
+  circular: boolean;
+}
+
+export function cellKey(row: number, col: number): string {
+  return `${row}:${col}`;
+}
+
+function keyToPosition(key: string): CellPosition {
+  const [row, col] = key.split(':').map(Number);
+  return { row, col };
+}
+
+function rangeContains(range: Range, row: number, col: number): boolean {
+  return (
+    row >= Math.min(range.start.row, range.end.row) &&
+    row <= Math.max(range.start.row, range.end.row) &&
+    col >= Math.min(range.start.col, range.end.col) &&
+    col <= Math.max(range.start.col, range.end.col)
+  );
+}
+
+/**
+ * Tracks which formula cells depend on which cells, so an edit only
+ * recalculates the cells that (transitively) read from it.
+ *
+ * Single-cell references are indexed directly; range references are kept
+ * as ranges rather than expanded, so `SUM(A1:A100000)` stays one entry.
+ */
+@Injectable()
+export class DependencyGraphService {
+  // formula cell -> what it reads
+  private precedents = new Map<string, CellPrecedents>();
+  // cell -> formula cells referencing it directly
+  private cellDependents = new Map<string, Set<string>>();
+  // formula cell -> ranges it reads
+  private rangeDependents = new Map<string, Range[]>();
+
+  clear(): void {
+    this.precedents.clear();
+    this.cellDependents.clear();
+    this.rangeDependents.clear();
+  }
+
+  get formulaCells(): CellPosition[] {
+    return [...this.precedents.keys()].map(keyToPosition);
+  }
+
+  /**
+   * Replaces the recorded precedents of a formula cell.
+   * Pass null when the cell no longer holds a formula.
+   */
+  setPrecedents(position: CellPosition, precedents: CellPrecedents | null): void {
+    const key = cellKey(position.row, position.col);
+    this.remove(key);
+    if (!precedents) return;
+
+    this.precedents.set(key, precedents);
+    precedents.cells.forEach(cell => {
+      const refKey = cellKey(cell.row, cell.col);
+      if (!this.cellDependents.has(refKey)) {
+        this.cellDependents.set(refKey, new Set());
+      }
+      this.cellDependents.get(refKey)!.add(key);
+    });
+    if (precedents.ranges.length) {
+      this.rangeDependents.set(key, precedents.ranges);
+    }
+  }
+
+  /**
+   * Returns the changed formula cells plus every formula cell that
+   * transitively depends on any of the changed positions.
+   */
+  collectAffected(changed: CellPosition[]): Set<string> {
+    const affected = new Set<string>();
+    const queue = changed.map(p => cellKey(p.row, p.col));
+
+    while (queue.length) {
+      const key = queue.pop()!;
+      if (this.precedents.has(key)) {
+        if (affected.has(key)) continue;
+        affected.add(key);
+      }
+      this.directDependents(key).forEach(dependent => {
+        if (!affected.has(dependent)) queue.push(dependent);
+      });
+    }
+    return affected;
+  }
+
+  /**
+   * Formula cells reading from the named sheet; with `changed` positions
+   * only those reading one of them.
+   */
+  getSheetDependents(sheet: string, changed?: CellPosition[]): CellPosition[] {
+    const dependents: CellPosition[] = [];
+    this.precedents.forEach((precedents, key) => {
+      const reads = precedents.sheetRanges?.filter(read => isSameSheetName(read.sheet, sheet)) ?? [];
+      if (reads.some(read => !changed || changed.some(p => rangeContains(read.range, p.row, p.col)))) {
+        dependents.push(keyToPosition(key));
+      }
+    });
+    return dependents;
+  }
+
+  /**
+   * Orders the given formula cells so every cell comes after the cells it
+   * reads from. Cells that take part in a reference cycle are grouped and
+   * flagged as circular.
+   */
+  getEvaluationOrder(cells: Set<string>): EvaluationGroup[] {
+    // Iterative Tarjan over precedent edges: each strongly connected
+    // component is emitted only after everything it reads from.
+    const groups: EvaluationGroup[] = [];
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    let counter = 0;
+
+    for (const root of cells) {
+      if (index.has(root)) continue;
+
+      const work: { key: string; edges: string[]; next: number }[] = [];
+      const visit = (key: string) => {
+        index.set(key, counter);
+        lowLink.set(key, counter);
+        counter++;
+        stack.push(key);
+        onStack.add(key);
+        work.push({ key, edges: this.formulaPrecedents(key, cells), next: 0 });
+      };
+      visit(root);
+
+      while (work.length) {
+        const frame = work[work.length - 1];
+        if (frame.next < frame.edges.length) {
+          const edge = frame.edges[frame.next++];
+          if (!index.has(edge)) {
+            visit(edge);
+          } else if (onStack.has(edge)) {
+            lowLink.set(frame.key, Math.min(lowLink.get(frame.key)!, index.get(edge)!));
+          }
+          continue;
+        }
+
+        work.pop();
+        if (work.length) {
+          const parent = work[work.length - 1];
+          lowLink.set(parent.key, Math.min(lowLink.get(parent.key)!, lowLink.get(frame.key)!));
+        }
+
+        if (lowLink.get(frame.key) === index.get(frame.key)) {
+          const members: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            members.push(member);
+          } while (member !== frame.key);
+
+          const circular = members.length > 1 || frame.edges.includes(frame.key);
+          groups.push({ cells: members.map(keyToPosition), circular });
+        }
+      }
+    }
+    return groups;
+  }
+
+  private remove(key: string): void {
+    const previous = this.precedents.get(key);
+    if (!previous) return;
+    previous.cells.forEach(cell => {
+      const refKey = cellKey(cell.row, cell.col);
+      const dependents = this.cellDependents.get(refKey);
+      dependents?.delete(key);
+      if (dependents?.size === 0) {
+        this.cellDependents.delete(refKey);
+      }
+    });
+    this.rangeDependents.delete(key);
+    this.precedents.delete(key);
+  }
+
+  private directDependents(key: string): string[] {
+    const { row, col } = keyToPosition(key);
+    const dependents = [...(this.cellDependents.get(key) ?? [])];
+    this.rangeDependents.forEach((ranges, dependent) => {
+      if (ranges.some(range => rangeContains(range, row, col))) {
+        dependents.push(dependent);
+      }
+    });
+    return dependents;
+  }
+
+  // Formula cells (within `scope`) that the given formula cell reads from
+  private formulaPrecedents(key: string, scope: Set<string>): string[] {
+    const precedents = this.precedents.get(key);
+    if (!precedents) return [];
+    const result = precedents.cells
+      .map(cell => cellKey(cell.row, cell.col))
+      .filter(refKey => scope.has(refKey));
+    if (precedents.ranges.length) {
+      scope.forEach(candidate => {
+        const { row, col } = keyToPosition(candidate);
+        if (precedents.ranges.some(range => rangeContains(range, row, col))) {
+          result.push(candidate);
+        }
+      });
+    }
+    return result;
+  }
+}
@@ -1,12 +1,26 @@
 
 import { Injectable, inject, ElementRef } from '@angular/core';
-import { Sheet } from '../models/sheet.model';
-import { StateService, MouseMode } from './state.service';
+import { Cell, Sheet, Range, OutlineGroup } from '../models/sheet.model';
+import { StateService, MouseMode, HighlightState } from './state.service';
 import { ClipboardService } from './clipboard.service';
 import { RenderService } from './render.service';
-import { getAccumulatedHeight, getAccumulatedWidth } from '../utils/sheet.utils';
+import {
+  expandRangeToMerges,
+  getCell,
+  getMergeAnchor,
+  getMergeAt,
+  getOutlineGroups,
+  getOutlineLevel,
+  getShownOutlineGroups,
+  isInSheet,
+  normalizeRange
+} from '../utils/sheet.utils';
 import { DataService } from './data.service';
 import { UndoRedoService } from './undo-redo.service';
+import { LayoutService } from './layout.service';
+
+// Part of the header gutter under the pointer
+type HeaderHit = { type: 'corner' } | { type: 'column' | 'row'; index: number };
 
 @Injectable()
 export class EventService {
@@ -15,6 +29,7 @@ export class EventService {
   private dataService = inject(DataService);
   private renderService = inject(RenderService);
   private undoRedoService = inject(UndoRedoService);
+  private layoutService = inject(LayoutService);
 
   private boundaryThreshold = 3;
   private currentCursorStyle = 'default';
@@ -26,6 +41,12 @@ export class EventService {
   onMouseDown(event: MouseEvent, sheet: Sheet): void {
     this.stateService.updateContextMenuState({ visible: false });
     if (!sheet) return;
+    // A click anywhere in the grid ends the edit, unless the cell refuses the text
+    if (!this.commitEdit(sheet)) {
+      event.preventDefault();
+      return;
+    }
+    const point = this.toGridPoint(event, sheet);
     if (this.stateService.isDragHandleHovered) {
       this.stateService.setMouseMode(MouseMode.DRAG_FILL);
       this.stateService.updateDragFillState({
@@ -38,7 +59,7 @@ export class EventService {
     }
 
     // 1) Check if user clicked a button
-    const onClick = this.renderService.checkButtonHit(event.offsetX, event.offsetY);
+    const onClick = this.renderService.checkButtonHit(point.x, point.y);
     if (onClick) {
       // If so, call the button’s handler
       onClick();
@@ -73,11 +94,22 @@ export class EventService {
         return;
       }
     } else {
+      const toggle = this.getOutlineToggleAt(event, sheet);
+      if (toggle) {
+        this.toggleOutlineGroup(toggle.axis, toggle.group, sheet);
+        return;
+      }
+
+      const header = this.getHeaderAt(event, sheet);
+      if (header) {
+        this.selectFromHeader(header, event, sheet);
+        return;
+      }
 
       this.stateService.setMouseMode(MouseMode.SELECTING_CELLS);
 
-      const offsetX = event.offsetX;
-      const offsetY = event.offsetY;
+      const offsetX = point.x;
+      const offsetY = point.y;
 
       // Convert offsetX/Y into cell row/col
       const { rowIndex, colIndex } = this.getCellFromOffset(offsetX, offsetY, sheet);
@@ -86,32 +118,29 @@ export class EventService {
       if (rowIndex < 0 || colIndex < 0) return;
       if (rowIndex >= sheet.rows.length || colIndex >= sheet.columns.length) return;
 
-      // Update active cell and selection
-      this.stateService.updateActiveCell(sheet.cells[rowIndex][colIndex]);
-      this.stateService.updateSelection({
+      // Update selection and active cell; a click inside a merged area selects all of it
+      const selection = this.fitToMerges(sheet, {
         start: { row: rowIndex, col: colIndex },
         end: { row: rowIndex, col: colIndex }
       });
-
-      // Position input box
-      const cellValue = sheet.cells[rowIndex][colIndex].value?.toString() ?? '';
-      this.stateService.positionInputAt(rowIndex, colIndex, sheet);
-      this.stateService.updateInputState({ value: cellValue });
+      this.applySelection(selection, this.isAddingRange(event));
+      this.activateCell(selection.start.row, selection.start.col, sheet);
     }
   }
 
 
   public onMouseMove(event: MouseEvent, sheet: Sheet): void {
     if (!sheet) return;
+    const point = this.toGridPoint(event, sheet);
     // Drag handle hover (bottom right selection corner)
     if (this.stateService.mouseMode === MouseMode.DEFAULT) {
       const handleArea = this.stateService.getDragHandleArea();
       if (handleArea) {
         const isHovered =
-          event.offsetX >= handleArea.x &&
-          event.offsetX <= handleArea.x + handleArea.width &&
-          event.offsetY >= handleArea.y &&
-          event.offsetY <= handleArea.y + handleArea.height;
+          point.x >= handleArea.x &&
+          point.x <= handleArea.x + handleArea.width &&
+          point.y >= handleArea.y &&
+          point.y <= handleArea.y + handleArea.height;
 
         this.stateService.updateDragFillState({ isDragHandleHovered: isHovered });
         if (isHovered) {
@@ -122,10 +151,12 @@ export class EventService {
     }
     // Drag fill preview
     if (this.stateService.mouseMode === MouseMode.DRAG_FILL) {
-      const { rowIndex, colIndex } = this.getCellFromOffset(event.offsetX, event.offsetY, sheet);
+      const { rowIndex, colIndex } = this.getCellFromOffset(point.x, point.y, sheet);
       if (rowIndex >= 0 && colIndex >= 0) {
+        const fillRange = this.getFillRange(normalizeRange(this.stateService.selection), rowIndex, colIndex);
         this.stateService.updateDragFillState({
-          previewEnd: { row: rowIndex, col: colIndex }
+          previewStart: fillRange.start,
+          previewEnd: fillRange.end
         });
         this.renderService.markDirty();
       }
@@ -141,16 +172,30 @@ export class EventService {
     }
     // Cell selection
     if (this.stateService.mouseMode === MouseMode.SELECTING_CELLS && event.buttons === 1) {
-      const offsetX = event.offsetX;
-      const offsetY = event.offsetY;
+      const offsetX = point.x;
+      const offsetY = point.y;
 
       const cellPos = this.getCellFromOffset(offsetX, offsetY, sheet);
       if (cellPos.rowIndex < 0 || cellPos.colIndex < 0) return;
       if (cellPos.rowIndex >= sheet.rows.length || cellPos.colIndex >= sheet.columns.length) return;
 
-      this.stateService.updateSelection({
-        end: { row: cellPos.rowIndex, col: cellPos.colIndex }
-      });
+      this.extendSelection(sheet, { row: cellPos.rowIndex, col: cellPos.colIndex });
+      this.renderService.markDirty();
+      return;
+    }
+    // Dragging across column letters / row numbers
+    if (
+      (this.stateService.mouseMode === MouseMode.SELECTING_COLUMNS ||
+        this.stateService.mouseMode === MouseMode.SELECTING_ROWS) &&
+      event.buttons === 1
+    ) {
+      if (this.stateService.mouseMode === MouseMode.SELECTING_COLUMNS) {
+        const col = this.layoutService.getColumnAt(sheet, point.x);
+        if (col >= 0) this.stateService.updateSelection({ end: { row: sheet.rows.length - 1, col } });
+      } else {
+        const row = this.layoutService.getRowAt(sheet, point.y);
+        if (row >= 0) this.stateService.updateSelection({ end: { row, col: sheet.columns.length - 1 } });
+      }
       this.renderService.markDirty();
       return;
     }
@@ -176,15 +221,15 @@ export class EventService {
     }
     // Hover while MouseDown
     if (event.buttons === 1) {
-      const { rowIndex, colIndex } = this.getCellFromOffset(event.offsetX, event.offsetY, sheet);
+      const { rowIndex, colIndex } = this.getCellFromOffset(point.x, point.y, sheet);
       // Throttle hover updates - only update if enough time has passed
       const now = performance.now();
       if (now - this.lastHoverUpdate >= this.hoverThrottleTime) {
         // Update hover state in render service
         if (rowIndex >= 0 && colIndex >= 0 &&
           rowIndex < sheet.rows.length && colIndex < sheet.columns.length) {
-          const x = event.offsetX - getAccumulatedWidth(sheet.columns, colIndex);
-          const y = event.offsetY - getAccumulatedHeight(sheet.rows, rowIndex);
+          const x = point.x - this.layoutService.getColumnLeft(sheet, colIndex);
+          const y = point.y - this.layoutService.getRowTop(sheet, rowIndex);
           this.renderService.setHoverPoint(
             { x: x, y: y },
             { row: rowIndex, col: colIndex }
@@ -202,15 +247,16 @@ export class EventService {
   onMouseUp(): void {
     if (this.stateService.mouseMode === MouseMode.DRAG_FILL) {
       const dragState = this.stateService.getDragFillState();
-      if (dragState.previewStart && dragState.previewEnd) {
-        // Use existing paste logic
-        const sheet = this.dataService.getSheetData();
-        if (sheet) {
-          this.clipboardService.copySelection(sheet);
-          this.clipboardService.paste(sheet, {
-            start: dragState.previewStart,
-            end: dragState.previewEnd
-          });
+      const sheet = this.dataService.getSheetData();
+      if (sheet && dragState.previewStart && dragState.previewEnd) {
+        const source = normalizeRange(this.stateService.selection);
+        const fillRange = { start: dragState.previewStart, end: dragState.previewEnd };
+        if (
+          fillRange.start.row !== source.start.row || fillRange.start.col !== source.start.col ||
+          fillRange.end.row !== source.end.row || fillRange.end.col !== source.end.col
+        ) {
+          this.dataService.autoFillSelection(sheet, source, fillRange);
+          this.stateService.updateSelection(fillRange);
         }
       }
       this.stateService.setMouseMode(MouseMode.DEFAULT);
@@ -229,6 +275,11 @@ export class EventService {
   onKeyDown(event: KeyboardEvent, sheet: Sheet): void {
     // Handle Escape key regardless of active cell
     if (event.key === 'Escape') {
+      // While editing it only discards the edit
+      if (!this.stateService.input.disabled) {
+        this.cancelEdit(sheet);
+        return;
+      }
       this.stateService.setMarchingAnts(false);
       this.stateService.updateCopyHighlight({
         start: { row: -1, col: -1 },
@@ -237,14 +288,21 @@ export class EventService {
       return;
     }
 
-    // Check for Ctrl+Z
-    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+    // Ctrl+Z undo, Ctrl+Y / Ctrl+Shift+Z redo (while editing, the input keeps its own undo)
+    if (
+      (event.ctrlKey || event.metaKey) &&
+      (event.key.toLowerCase() === 'z' || event.key.toLowerCase() === 'y') &&
+      this.stateService.input.disabled
+    ) {
       event.preventDefault();
-      const undoneSheet = this.undoRedoService.undo();
-      if (undoneSheet) {
-        const cellValues = undoneSheet.cells.map(row => row.map(cell => cell.value));
-        this.dataService.updateCellValues(0, 0, cellValues, false);
+      const isRedo = event.key.toLowerCase() === 'y' || event.shiftKey;
+      const command = isRedo ? this.undoRedoService.redo() : this.undoRedoService.undo();
+      if (command?.range) {
+        this.stateService.updateSelection(normalizeRange(command.range));
       }
+      // The editor would otherwise reopen with the text from before the undo
+      this.refreshActiveCell(sheet);
+      this.renderService.markDirty();
       return;
     }
 
@@ -254,21 +312,15 @@ export class EventService {
 
       if (!sheet) return;
 
-      const lastRow = sheet.rows.length - 1;
-      const lastCol = sheet.columns.length - 1;
-
-      // Update the selection state to cover the entire grid
-      this.stateService.updateSelection({
-        start: { row: 0, col: 0 },
-        end: { row: lastRow, col: lastCol }
-      });
-
-      // Optionally, clear the active cell or set it to the top-left
-      // e.g. focus on top-left
-      // this.stateService.updateActiveCell(sheet.cells[0][0]);
+      this.selectAll(sheet);
+      return;
+    }
 
-      // Request a re-render to show the highlight
-      this.renderService.markDirty();
+    // Ctrl+G or F5 opens the Go to box
+    const isGoTo = ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'g') || event.key === 'F5';
+    if (isGoTo && this.stateService.input.disabled) {
+      event.preventDefault();
+      this.stateService.setGoToVisible(true);
       return;
     }
 
@@ -280,21 +332,11 @@ export class EventService {
 
 
     if (event.key === 'Delete' && this.stateService.input.disabled) {
-      const { start, end } = this.stateService.selection;
-      const startRow = Math.min(start.row, end.row);
-      const endRow = Math.max(start.row, end.row);
-      const startCol = Math.min(start.col, end.col);
-      const endCol = Math.max(start.col, end.col);
+      // One undo step and one change notification for the whole selection
+      this.dataService.clearRange(this.stateService.selections);
+      this.refreshActiveCell(sheet);
 
-      for (let row = startRow; row <= endRow; row++) {
-        for (let col = startCol; col <= endCol; col++) {
-          this.dataService.updateCellValues(row, col, '');
-        }
-      }
-
-      // Add these two lines:
       this.renderService.markDirty();
-      this.dataService.emitSheetChanges(sheet);
 
       return;
     }
@@ -366,6 +408,7 @@ export class EventService {
 
       if (newWidth > 10) {
         sheet.columns[colIndex].width = newWidth;
+        this.layoutService.invalidateColumns(colIndex);
 
         // If the active cell is in that column, update input width
         const activeCell = this.stateService.activeCell;
@@ -386,6 +429,7 @@ export class EventService {
 
       if (newHeight > 10) {
         sheet.rows[rowIndex].height = newHeight;
+        this.layoutService.invalidateRows(rowIndex);
 
         // If the active cell is in that row, update input height
         const activeCell = this.stateService.activeCell;
@@ -401,26 +445,28 @@ export class EventService {
 
   public getColumnBoundaryIndex(event: MouseEvent, sheet: Sheet): number {
     // Return -1 if not near a boundary
-    const offsetX = event.offsetX;
+    const offsetX = this.toGridPoint(event, sheet).x;
     if (offsetX < 0) return -1;
 
-    let accumulatedWidth = 0;
-    for (let i = 0; i < sheet.columns.length; i++) {
-      const colWidth = sheet.columns[i].width;
-      const leftEdge = accumulatedWidth;
-      const rightEdge = accumulatedWidth + colWidth;
+    // Just past the last column only its right edge can be grabbed
+    const i = this.layoutService.getColumnAt(sheet, offsetX);
+    if (i === -1) {
+      const totalWidth = this.layoutService.getTotalWidth(sheet);
+      const last = this.stepVisible(sheet.columns, sheet.columns.length, -1);
+      return Math.abs(offsetX - totalWidth) < this.boundaryThreshold && last < sheet.columns.length ? last : -1;
+    }
 
-      // If within boundaryThreshold px of the left edge, resize prev column (if any)
-      if (Math.abs(offsetX - leftEdge) < this.boundaryThreshold && i > 0) {
-        return i - 1;
-      }
-      // If within boundaryThreshold px of the right edge, resize current column
-      if (Math.abs(offsetX - rightEdge) < this.boundaryThreshold) {
-        return i;
-      }
+    const leftEdge = this.layoutService.getColumnLeft(sheet, i);
+    const rightEdge = this.layoutService.getColumnLeft(sheet, i + 1);
 
-      accumulatedWidth += colWidth;
-      if (offsetX < rightEdge) break; // we found the column
+    // If within boundaryThreshold px of the left edge, resize the visible column before it (if any)
+    const previous = this.stepVisible(sheet.columns, i, -1);
+    if (Math.abs(offsetX - leftEdge) < this.boundaryThreshold && previous !== i) {
+      return previous;
+    }
+    // If within boundaryThreshold px of the right edge, resize current column
+    if (Math.abs(offsetX - rightEdge) < this.boundaryThreshold) {
+      return i;
     }
 
     return -1;
@@ -428,31 +474,48 @@ export class EventService {
 
   public getRowBoundaryIndex(event: MouseEvent, sheet: Sheet): number {
     // Return -1 if not near a boundary
-    const offsetY = event.offsetY;
+    const offsetY = this.toGridPoint(event, sheet).y;
     if (offsetY < 0) return -1;
 
-    let accumulatedHeight = 0;
-    for (let i = 0; i < sheet.rows.length; i++) {
-      const rowHeight = sheet.rows[i].height;
-      const topEdge = accumulatedHeight;
-      const bottomEdge = accumulatedHeight + rowHeight;
+    // Just past the last row only its bottom edge can be grabbed
+    const i = this.layoutService.getRowAt(sheet, offsetY);
+    if (i === -1) {
+      const totalHeight = this.layoutService.getTotalHeight(sheet);
+      const last = this.stepVisible(sheet.rows, sheet.rows.length, -1);
+      return Math.abs(offsetY - totalHeight) < this.boundaryThreshold && last < sheet.rows.length ? last : -1;
+    }
 
-      // If within threshold of the top boundary, that means resize previous row
-      if (Math.abs(offsetY - topEdge) < this.boundaryThreshold && i > 0) {
-        return i - 1;
-      }
-      // If within threshold of the bottom boundary, that means resize current row
-      if (Math.abs(offsetY - bottomEdge) < this.boundaryThreshold) {
-        return i;
-      }
+    const topEdge = this.layoutService.getRowTop(sheet, i);
+    const bottomEdge = this.layoutService.getRowTop(sheet, i + 1);
 
-      accumulatedHeight += rowHeight;
-      if (offsetY < bottomEdge) break; // found the row
+    // If within threshold of the top boundary, that means resize the visible row above
+    const previous = this.stepVisible(sheet.rows, i, -1);
+    if (Math.abs(offsetY - topEdge) < this.boundaryThreshold && previous !== i) {
+      return previous;
+    }
+    // If within threshold of the bottom boundary, that means resize current row
+    if (Math.abs(offsetY - bottomEdge) < this.boundaryThreshold) {
+      return i;
     }
 
     return -1;
   }
 
+  /**
+   * Extends the source range towards the hovered cell along a single axis,
+   * whichever direction the pointer has moved furthest.
+   */
+  private getFillRange(source: Range, row: number, col: number): Range {
+    const extensions = [
+      { distance: row - source.end.row, range: { start: source.start, end: { row, col: source.end.col } } },
+      { distance: source.start.row - row, range: { start: { row, col: source.start.col }, end: source.end } },
+      { distance: col - source.end.col, range: { start: source.start, end: { row: source.end.row, col } } },
+      { distance: source.start.col - col, range: { start: { row: source.start.row, col }, end: source.end } }
+    ];
+    const furthest = extensions.reduce((best, next) => next.distance > best.distance ? next : best);
+    return furthest.distance > 0 ? furthest.range : source;
+  }
+
   private setCursorStyle(style: string) {
     if (this.currentCursorStyle !== style) {
       this.currentCursorStyle = style;
@@ -504,102 +567,119 @@ export class EventService {
   // --- [NAVIGATION LOGIC] ---
   private handleShiftNavigation(event: KeyboardEvent, sheet: Sheet): void {
     const { end } = this.stateService.selection;
-    const totalRows = sheet.rows.length;
-    const totalCols = sheet.columns.length;
 
     const newEnd = { ...end };
+    const { type } = this.stateService.selection;
 
     switch (event.key) {
       case 'ArrowUp':
         event.preventDefault();
-        if (end.row > 0) newEnd.row--;
+        newEnd.row = this.stepVisible(sheet.rows, end.row, -1);
         break;
       case 'ArrowDown':
         event.preventDefault();
-        if (end.row < totalRows - 1) newEnd.row++;
+        newEnd.row = this.stepVisible(sheet.rows, end.row, 1);
         break;
       case 'ArrowLeft':
         event.preventDefault();
-        if (end.col > 0) newEnd.col--;
+        newEnd.col = this.stepVisible(sheet.columns, end.col, -1);
         break;
       case 'ArrowRight':
         event.preventDefault();
-        if (end.col < totalCols - 1) newEnd.col++;
+        newEnd.col = this.stepVisible(sheet.columns, end.col, 1);
         break;
     }
+    // Whole rows/columns stay whole: only the other axis can be extended
+    if (type === 'rows' || type === 'all') newEnd.col = end.col;
+    if (type === 'columns' || type === 'all') newEnd.row = end.row;
 
-    this.stateService.updateSelection({ end: newEnd });
+    this.extendSelection(sheet, newEnd);
   }
 
   private handleNavigation(event: KeyboardEvent, sheet: Sheet): void {
     const { start } = this.stateService.selection;
-    const totalRows = sheet.rows.length;
-    const totalCols = sheet.columns.length;
 
-    const newPos = { ...start };
+    // A merged area is left from its far edge; hidden rows/columns are skipped
+    const from = getMergeAt(sheet, start.row, start.col) ?? { start, end: start };
+    const newPos = { ...from.start };
 
     switch (event.key) {
       case 'ArrowUp':
         event.preventDefault();
-        if (start.row > 0) newPos.row--;
+        newPos.row = this.stepVisible(sheet.rows, from.start.row, -1);
         break;
       case 'ArrowDown':
       case 'Enter':
         event.preventDefault();
-        if (start.row < totalRows - 1) newPos.row++;
+        newPos.row = this.stepVisible(sheet.rows, from.end.row, 1);
         break;
       case 'ArrowLeft':
         event.preventDefault();
-        if (start.col > 0) newPos.col--;
+        newPos.col = this.stepVisible(sheet.columns, from.start.col, -1);
         break;
       case 'ArrowRight':
         event.preventDefault();
-        if (start.col < totalCols - 1) newPos.col++;
+        newPos.col = this.stepVisible(sheet.columns, from.end.col, 1);
         break;
       default:
         return;
     }
 
     // Update selection, focus, and input position
-    this.stateService.updateSelection({
-      start: newPos,
-      end: newPos
-    });
-    this.stateService.updateActiveCell(sheet.cells[newPos.row][newPos.col]);
-    this.stateService.positionInputAt(newPos.row, newPos.col, sheet);
-    this.stateService.updateInputState({
-      value: sheet.cells[newPos.row][newPos.col].value?.toString() ?? ''
-    });
+    this.moveToCell(newPos.row, newPos.col, sheet);
   }
 
   private handleEditModeKeys(event: KeyboardEvent, sheet: Sheet): void {
     if (event.key === 'Enter') {
       event.preventDefault();
-      const { start } = this.stateService.selection;
-      // const currentCell = sheet.cells[start.row][start.col];
-
-      // // Update cell with input's current value
-      // currentCell.handleInput(this.stateService.input.value);
-
-      this.dataService.updateCellValues(start.row, start.col, this.stateService.input.value);
-
-      // Move down one row if possible
-      const nextRow = start.row + 1;
-      if (nextRow < sheet.rows.length) {
-        this.stateService.updateSelection({
-          start: { row: nextRow, col: start.col },
-          end: { row: nextRow, col: start.col }
-        });
-        this.stateService.updateActiveCell(sheet.cells[nextRow][start.col]);
-        this.stateService.positionInputAt(nextRow, start.col, sheet);
-        this.stateService.updateInputState({
-          value: sheet.cells[nextRow][start.col].value?.toString() ?? '',
-          disabled: true
-        });
+      const { selection } = this.stateService;
+      const start = getMergeAnchor(sheet, selection.start.row, selection.start.col);
+      if (!this.commitEdit(sheet)) return;
+
+      // Move down to the next visible row (below a merged area) if possible
+      const lastRow = getMergeAt(sheet, start.row, start.col)?.end.row ?? start.row;
+      const nextRow = this.stepVisible(sheet.rows, lastRow, 1);
+      if (nextRow !== lastRow) {
+        this.moveToCell(nextRow, start.col, sheet);
       }
     }
   }
 
+  /**
+   * Stores the editor's text in the cell being edited, parsed as its datatype,
+   * and closes the editor. Text the cell refuses (`invalidInput: 'reject'`) is
+   * neither stored nor lost: the editor stays open, marked invalid, and false is returned.
+   */
+  public commitEdit(sheet: Sheet): boolean {
+    const input = this.stateService.input;
+    if (input.disabled) return true;
+    const { start } = this.stateService.selection;
+    const anchor = getMergeAnchor(sheet, start.row, start.col);
+    const accepted = this.dataService.updateCellValues(anchor.row, anchor.col, input.value, true, {
+      mergeKey: `edit-${this.stateService.editSession}`
+    });
+    if (!accepted) {
+      this.stateService.updateInputState({ invalid: true });
+      this.stateService.inputElement?.focus();
+      return false;
+    }
+    this.stateService.updateInputState({ disabled: true, invalid: false });
+    return true;
+  }
+
+  // Closes the editor and leaves the cell as it was before the edit
+  public cancelEdit(sheet: Sheet): void {
+    // Re-read, as the active cell may not have been stored when it was activated
+    const { start } = this.stateService.selection;
+    const anchor = getMergeAnchor(sheet, start.row, start.col);
+    const cell = getCell(sheet, anchor.row, anchor.col);
+    this.stateService.updateInputState({
+      disabled: true,
+      invalid: false,
+      value: cell?.getInputValue(sheet.locale) ?? ''
+    });
+  }
+
   private getCellFromOffset(
     offsetX: number,
     offsetY: number,
@@ -610,46 +690,259 @@ export class EventService {
       return { rowIndex: -1, colIndex: -1 };
     }
 
-    let accumulatedWidth = 0;
-    let colIndex = -1;
-    for (let i = 0; i < sheet.columns.length; i++) {
-      const colWidth = sheet.columns[i].width;
-      if (offsetX < accumulatedWidth + colWidth) {
-        colIndex = i;
-        break;
-      }
-      accumulatedWidth += colWidth;
+    const colIndex = this.layoutService.getColumnAt(sheet, offsetX);
+    const rowIndex = this.layoutService.getRowAt(sheet, offsetY);
+
+    return { rowIndex, colIndex };
+  }
+
+  /**
+   * Pointer position in grid coordinates. The canvas only covers the viewport,
+   * so offsets relative to it are shifted by the scroll position (except over frozen panes).
+   */
+  private toGridPoint(event: MouseEvent, sheet: Sheet): { x: number; y: number } {
+    return this.layoutService.viewportToGrid(sheet, event.offsetX, event.offsetY, this.stateService.scrollPosition);
+  }
+
+  private selectAll(sheet: Sheet): void {
+    const lastRow = sheet.rows.length - 1;
+    const lastCol = sheet.columns.length - 1;
+
+    // Update the selection state to cover the entire grid
+    this.stateService.updateSelection({
+      start: { row: 0, col: 0 },
+      end: { row: lastRow, col: lastCol },
+      type: 'all'
+    });
+
+    // Optionally, clear the active cell or set it to the top-left
+    // e.g. focus on top-left
+    // this.stateService.updateActiveCell(sheet.cells[0][0]);
+
+    // Request a re-render to show the highlight
+    this.renderService.markDirty();
+  }
+
+  /**
+   * A click on a column letter or row number selects the whole column/row;
+   * with shift it extends from the current selection, with Ctrl/Cmd it is added
+   * as another range. The corner selects everything.
+   */
+  private selectFromHeader(header: HeaderHit, event: MouseEvent, sheet: Sheet): void {
+    const current = this.stateService.selection;
+    const canExtend = event.shiftKey && current.start.row >= 0;
+    const add = this.isAddingRange(event);
+    this.stateService.updateInputState({ disabled: true });
+
+    if (header.type === 'corner') {
+      this.selectAll(sheet);
+      this.activateCell(0, 0, sheet);
+      return;
     }
 
-    let accumulatedHeight = 0;
-    let rowIndex = -1;
-    for (let j = 0; j < sheet.rows.length; j++) {
-      const rowHeight = sheet.rows[j].height;
-      if (offsetY < accumulatedHeight + rowHeight) {
-        rowIndex = j;
-        break;
+    if (header.type === 'column') {
+      const anchor = canExtend ? current.start.col : header.index;
+      this.applySelection({
+        start: { row: 0, col: anchor },
+        end: { row: sheet.rows.length - 1, col: header.index },
+        type: 'columns'
+      }, add);
+      this.stateService.setMouseMode(MouseMode.SELECTING_COLUMNS);
+      this.activateCell(0, anchor, sheet);
+    } else {
+      const anchor = canExtend ? current.start.row : header.index;
+      this.applySelection({
+        start: { row: anchor, col: 0 },
+        end: { row: header.index, col: sheet.columns.length - 1 },
+        type: 'rows'
+      }, add);
+      this.stateService.setMouseMode(MouseMode.SELECTING_ROWS);
+      this.activateCell(anchor, 0, sheet);
+    }
+    this.renderService.markDirty();
+  }
+
+  // Ctrl/Cmd+click adds a range to the selection instead of replacing it
+  private isAddingRange(event: MouseEvent): boolean {
+    return (event.ctrlKey || event.metaKey) && this.stateService.selection.start.row >= 0;
+  }
+
+  private applySelection(selection: HighlightState, add: boolean): void {
+    if (add) {
+      this.stateService.addSelection(selection);
+    } else {
+      this.stateService.updateSelection(selection);
+    }
+  }
+
+  // The nearest row/column from `from` in the direction of `step` that isn't hidden, or `from` if there is none
+  private stepVisible(lines: { hidden?: boolean }[], from: number, step: 1 | -1): number {
+    for (let i = from + step; i >= 0 && i < lines.length; i += step) {
+      if (!lines[i].hidden) return i;
+    }
+    return from;
+  }
+
+  /**
+   * Selects a range (grown over merged areas it cuts through), makes its
+   * top-left cell the active one and scrolls to it.
+   */
+  public goTo(range: Range, sheet: Sheet): void {
+    const selection = this.fitToMerges(sheet, normalizeRange(range));
+    this.stateService.updateSelection(selection);
+    this.activateCell(selection.start.row, selection.start.col, sheet);
+    this.renderService.scrollCellIntoView(selection.start.row, selection.start.col, sheet);
+    this.renderService.markDirty();
+  }
+
+  // Selects a single cell (or the merged area it is part of) and scrolls to it
+  private moveToCell(row: number, col: number, sheet: Sheet): void {
+    this.goTo({ start: { row, col }, end: { row, col } }, sheet);
+  }
+
+  // Moves the far corner of the active range, growing it over merged areas it cuts through
+  private extendSelection(sheet: Sheet, end: { row: number; col: number }): void {
+    const fitted = this.fitToMerges(sheet, { ...this.stateService.selection, end });
+    this.stateService.resizeSelection(fitted.start, fitted.end);
+  }
+
+  /**
+   * Grows a selection so no merged area is only partly covered. The start stays
+   * on its side of the range, so the range keeps its direction.
+   */
+  private fitToMerges(sheet: Sheet, selection: HighlightState): HighlightState {
+    if (!sheet.merges?.length) return selection;
+    const bounds = expandRangeToMerges(sheet, selection);
+    const { start, end } = selection;
+    const isDown = end.row >= start.row;
+    const isRight = end.col >= start.col;
+    return {
+      ...selection,
+      start: { row: isDown ? bounds.start.row : bounds.end.row, col: isRight ? bounds.start.col : bounds.end.col },
+      end: { row: isDown ? bounds.end.row : bounds.start.row, col: isRight ? bounds.end.col : bounds.start.col }
+    };
+  }
+
+  /**
+   * Makes a cell the active one and moves the (closed) editor onto it. An empty
+   * position gets a cell that isn't stored; `updateCellValues` stores one when
+   * a value is committed.
+   */
+  private activateCell(row: number, col: number, sheet: Sheet): void {
+    const cell = getCell(sheet, row, col) ?? new Cell(null, { rowIndex: row, columnIndex: col });
+    this.stateService.updateActiveCell(cell);
+    this.stateService.positionInputAt(row, col, sheet);
+    this.stateService.updateInputState({ value: cell.getInputValue(sheet.locale) });
+  }
+
+  // Re-reads the active cell after its contents changed without the selection moving
+  private refreshActiveCell(sheet: Sheet): void {
+    const { start } = this.stateService.selection;
+    if (!isInSheet(sheet, start.row, start.col)) return;
+    this.activateCell(start.row, start.col, sheet);
+  }
+
+  // The outline group whose +/- button is under the pointer, if any
+  private getOutlineToggleAt(event: MouseEvent, sheet: Sheet): { axis: 'row' | 'column'; group: OutlineGroup } | null {
+    const gutter = this.layoutService.getGutterSize(sheet);
+    const outline = this.layoutService.getOutlineSize(sheet);
+    const levelSize = this.layoutService.outlineLevelSize;
+    const point = this.toGridPoint(event, sheet);
+
+    let axis: 'row' | 'column';
+    let level: number;
+    let position: number;
+    if (event.offsetX < outline.width && event.offsetY >= gutter.height) {
+      axis = 'row';
+      level = Math.floor((event.offsetX - 2) / levelSize);
+      position = point.y;
+    } else if (event.offsetY < outline.height && event.offsetX >= gutter.width) {
+      axis = 'column';
+      level = Math.floor((event.offsetY - 2) / levelSize);
+      position = point.x;
+    } else {
+      return null;
+    }
+
+    const groups = getOutlineGroups(sheet, axis);
+    const group = getShownOutlineGroups(groups).find(candidate =>
+      getOutlineLevel(groups, candidate) === level &&
+      Math.abs(this.layoutService.getOutlineButtonCenter(sheet, axis, candidate) - position) <= levelSize / 2);
+    return group ? { axis, group } : null;
+  }
+
+  /**
+   * Collapses or expands an outline group. When that hides the active cell, the
+   * selection moves to the row/column after the group, where its button is.
+   */
+  private toggleOutlineGroup(axis: 'row' | 'column', group: OutlineGroup, sheet: Sheet): void {
+    this.stateService.updateInputState({ disabled: true });
+    this.dataService.setGroupCollapsed(axis, group.start, group.end, !group.collapsed);
+
+    const { start } = this.stateService.selection;
+    const lines = axis === 'row' ? sheet.rows : sheet.columns;
+    const index = axis === 'row' ? start.row : start.col;
+    if (start.row >= 0 && lines[index]?.hidden) {
+      const next = this.stepVisible(lines, index, 1);
+      const target = next !== index ? next : this.stepVisible(lines, index, -1);
+      if (target !== index) {
+        this.moveToCell(axis === 'row' ? target : start.row, axis === 'row' ? start.col : target, sheet);
       }
-      accumulatedHeight += rowHeight;
     }
+    this.renderService.markDirty();
+  }
 
-    return { rowIndex, colIndex };
+  // Which part of the header gutter is under the pointer, if any
+  private getHeaderAt(event: MouseEvent, sheet: Sheet): HeaderHit | null {
+    if (!this.layoutService.showHeaders) return null;
+    const gutter = this.layoutService.getGutterSize(sheet);
+    const outline = this.layoutService.getOutlineSize(sheet);
+    if (event.offsetX < outline.width || event.offsetY < outline.height) return null;
+    const inColumnHeaders = event.offsetY < gutter.height;
+    const inRowHeaders = event.offsetX < gutter.width;
+    if (inColumnHeaders && inRowHeaders) return { type: 'corner' };
+
+    const point = this.toGridPoint(event, sheet);
+    if (inColumnHeaders) {
+      const index = this.layoutService.getColumnAt(sheet, point.x);
+      return index >= 0 ? { type: 'column', index } : null;
+    }
+    if (inRowHeaders) {
+      const index = this.layoutService.getRowAt(sheet, point.y);
+      return index >= 0 ? { type: 'row', index } : null;
+    }
+    return null;
   }
 
   private isInTopHeaderRow(event: MouseEvent, sheet: Sheet): boolean {
+    // With the built-in gutter, the column letters strip is the resize area
+    if (this.layoutService.showHeaders) {
+      const gutter = this.layoutService.getGutterSize(sheet);
+      const outline = this.layoutService.getOutlineSize(sheet);
+      return event.offsetY >= outline.height && event.offsetY < gutter.height && event.offsetX >= gutter.width;
+    }
     // If the sheet shows column headers, the top header row is from Y=0 to Y=defaultCellHeight.
     // So check event.offsetY <= defaultCellHeight.
     // If rowHeaders exist, we also need to see if event.offsetX is > rowHeaderWidth.
+    const point = this.toGridPoint(event, sheet);
     const headerHeight = sheet.rows[0].height;
-    const withinTopHeaderY = event.offsetY >= 0 && event.offsetY <= headerHeight;
-    const beyondRowHeaderX = (event.offsetX > this.stateService.defaultCellWidth);
+    const withinTopHeaderY = point.y >= 0 && point.y <= headerHeight;
+    const beyondRowHeaderX = (point.x > this.stateService.defaultCellWidth);
     return withinTopHeaderY && beyondRowHeaderX;
   }
 
   private isInLeftHeaderCol(event: MouseEvent, sheet: Sheet): boolean {
+    // With the built-in gutter, the row numbers strip is the resize area
+    if (this.layoutService.showHeaders) {
+      const gutter = this.layoutService.getGutterSize(sheet);
+      const outline = this.layoutService.getOutlineSize(sheet);
+      return event.offsetX >= outline.width && event.offsetX < gutter.width && event.offsetY >= gutter.height;
+    }
     // If the sheet shows row headers, the leftmost column is from X=0 to X=defaultCellWidth.
     // Also check if event.offsetY is > columnHeaderHeight if we have column headers.
-    const withinLeftHeaderX = event.offsetX >= 0 && event.offsetX <= this.stateService.defaultCellWidth;
-    const beyondColumnHeaderY = (event.offsetY > this.stateService.defaultCellHeight);
+    const point = this.toGridPoint(event, sheet);
+    const withinLeftHeaderX = point.x >= 0 && point.x <= this.stateService.defaultCellWidth;
+    const beyondColumnHeaderY = (point.y > this.stateService.defaultCellHeight);
     return withinLeftHeaderX && beyondColumnHeaderY;
   }
 }
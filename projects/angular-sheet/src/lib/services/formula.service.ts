@@ -0,0 +1,428 @@
+import { Injectable, inject } from '@angular/core';
+import { Subject } from 'rxjs';
+import { Cell, Range, Sheet } from '../models/sheet.model';
+import {
+  CellReference,
+  FormulaArgument,
+  FormulaError,
+  FormulaErrorCode,
+  FormulaNode,
+  FormulaRangeValue,
+  FormulaValue
+} from '../models/formula.model';
+import { parseFormula } from '../utils/formula.utils';
+import { getCell, getCellStore, getNamedRange } from '../utils/sheet.utils';
+import { compareValues, toNumber, toScalar, toText } from '../utils/formula-functions.utils';
+import { CellPosition, CellPrecedents, DependencyGraphService, cellKey } from './dependency-graph.service';
+import { FunctionRegistryService } from './function-registry.service';
+import { WorkbookCellChange, WorkbookService } from './workbook.service';
+
+const ERROR_CODES: FormulaErrorCode[] = [
+  '#DIV/0!', '#VALUE!', '#REF!', '#NAME?', '#N/A', '#NUM!', '#CIRCULAR!', '#BUSY!', '#ERROR!'
+];
+
+// Emitted after every recalculation with the formula cells that were re-evaluated
+export interface RecalculationResult {
+  sheet: Sheet;
+  cells: CellPosition[];
+  // True when triggered by an async function settling rather than by an edit
+  async: boolean;
+  // True when triggered by a change on another sheet of the workbook
+  external: boolean;
+}
+
+/**
+ * Parses and evaluates cell formulas against the sheet.
+ * The formula source lives in `Cell.formula`, the computed result in `Cell.value`.
+ */
+@Injectable()
+export class FormulaService {
+  private graph = inject(DependencyGraphService);
+  private functionRegistry = inject(FunctionRegistryService);
+  // Set when the sheet is part of a <sheet-workbook>; resolves `Costs!B4` style references
+  private workbook = inject(WorkbookService, { optional: true });
+
+  // Parsed formulas keyed by source text, so identical formulas are only parsed once
+  private astCache = new Map<string, FormulaNode | FormulaError>();
+  // The sheet the dependency graph was built for
+  private graphSheet: Sheet | null = null;
+
+  private recalculated = new Subject<RecalculationResult>();
+  public recalculated$ = this.recalculated.asObservable();
+
+  // Async function calls, keyed by function name + arguments. Settled results are
+  // kept across recalculations until the function changes or they are cleared.
+  private asyncFunctions = new Set<string>();
+  private asyncResults = new Map<string, FormulaValue>();
+  private pendingCalls = new Map<string, Set<string>>();
+  // The formula cell currently being evaluated (so async results know whom to notify)
+  private evaluatingCell: string | null = null;
+
+  constructor() {
+    // Results of a function that was replaced or removed no longer apply
+    this.functionRegistry.changed$.subscribe(name => {
+      this.asyncFunctions.delete(name);
+      this.clearAsyncResults(name);
+    });
+  }
+
+  /**
+   * Recalculates the sheet. With `changed` positions only the formulas that
+   * transitively depend on them are re-evaluated; without, the dependency
+   * graph is rebuilt and every formula is evaluated. Settled async results are
+   * reused either way (see `clearAsyncResults`).
+   */
+  recalculate(sheet: Sheet, changed?: CellPosition[]): void {
+    this.runRecalculation(sheet, changed, false);
+  }
+
+  /**
+   * Re-evaluates the formulas that read from another sheet of the workbook
+   * after cells there changed, along with everything depending on them.
+   */
+  recalculateDependents(sheet: Sheet, change: WorkbookCellChange): void {
+    const name = this.workbook?.getSheetName(change.sheet);
+    if (!name || change.sheet === sheet || sheet !== this.graphSheet) return;
+    const dependents = this.graph.getSheetDependents(name, change.cells);
+    if (dependents.length > 0) {
+      this.runRecalculation(sheet, dependents, false, true);
+    }
+  }
+
+  /**
+   * Forgets the settled results of async functions, of all of them or of the
+   * named one, so the next recalculation calls them again.
+   */
+  clearAsyncResults(name?: string): void {
+    if (!name) {
+      this.asyncResults.clear();
+      return;
+    }
+    const prefix = `${name.toUpperCase()}(`;
+    [...this.asyncResults.keys()]
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.asyncResults.delete(key));
+  }
+
+  /**
+   * Evaluates a formula against the sheet without storing the result anywhere.
+   */
+  evaluate(formula: string, sheet: Sheet): FormulaValue {
+    const ast = this.getAst(formula);
+    if (ast instanceof FormulaError) return ast;
+    return toScalar(this.evaluateNode(ast, sheet));
+  }
+
+  /**
+   * True if the value is one of the error codes a formula can produce.
+   */
+  isErrorValue(value: unknown): boolean {
+    return typeof value === 'string' && ERROR_CODES.includes(value as FormulaErrorCode);
+  }
+
+  private runRecalculation(
+    sheet: Sheet,
+    changed: CellPosition[] | undefined,
+    async: boolean,
+    external = false
+  ): void {
+    let affected: Set<string>;
+
+    if (!changed || sheet !== this.graphSheet) {
+      this.rebuildGraph(sheet);
+      affected = new Set(this.graph.formulaCells.map(p => cellKey(p.row, p.col)));
+    } else {
+      changed.forEach(position => {
+        const cell = getCell(sheet, position.row, position.col);
+        this.graph.setPrecedents(position, this.getPrecedents(cell, sheet));
+      });
+      affected = this.graph.collectAffected(changed);
+    }
+
+    const recalculatedCells: CellPosition[] = [];
+    this.graph.getEvaluationOrder(affected).forEach(group => {
+      group.cells.forEach(position => {
+        const cell = getCell(sheet, position.row, position.col);
+        if (!cell?.formula) return;
+        this.evaluatingCell = cellKey(position.row, position.col);
+        cell.value = group.circular ? '#CIRCULAR!' : this.computeValue(cell.formula, sheet);
+        recalculatedCells.push(position);
+      });
+    });
+    this.evaluatingCell = null;
+
+    this.recalculated.next({ sheet, cells: recalculatedCells, async, external });
+    // Formulas on other sheets may read the edited or recalculated cells
+    this.workbook?.notifyChanged(sheet, changed && [...changed, ...recalculatedCells]);
+  }
+
+  private computeValue(formula: string, sheet: Sheet): string | number | boolean | Date | null {
+    const result = this.evaluate(formula, sheet);
+    return result instanceof FormulaError ? result.code : result;
+  }
+
+  private callFunction(name: string, args: FormulaArgument[], sheet: Sheet): FormulaArgument {
+    const fn = this.functionRegistry.get(name);
+    if (!fn) return new FormulaError('#NAME?', `Unknown function ${name}`);
+
+    const callKey = `${name}(${JSON.stringify(args)})`;
+    if (this.asyncFunctions.has(name)) {
+      if (this.asyncResults.has(callKey)) return this.asyncResults.get(callKey)!;
+      if (this.pendingCalls.has(callKey)) return this.waitFor(callKey);
+    }
+
+    let result: ReturnType<typeof fn>;
+    try {
+      result = fn(args);
+    } catch (err) {
+      return new FormulaError('#VALUE!', err instanceof Error ? err.message : undefined);
+    }
+
+    if (!(result instanceof Promise)) return result;
+
+    // Async function: show #BUSY! and re-evaluate the waiting cells once it settles
+    this.asyncFunctions.add(name);
+    this.pendingCalls.set(callKey, new Set());
+    result
+      .then(
+        value => value,
+        err => new FormulaError('#VALUE!', err instanceof Error ? err.message : undefined)
+      )
+      .then(value => {
+        const waiting = this.pendingCalls.get(callKey);
+        this.pendingCalls.delete(callKey);
+        if (!waiting || sheet !== this.graphSheet) return;
+        this.asyncResults.set(callKey, value);
+        const positions = [...waiting].map(key => {
+          const [row, col] = key.split(':').map(Number);
+          return { row, col };
+        });
+        this.runRecalculation(sheet, positions, true);
+      });
+    return this.waitFor(callKey);
+  }
+
+  private waitFor(callKey: string): FormulaError {
+    if (this.evaluatingCell) {
+      this.pendingCalls.get(callKey)?.add(this.evaluatingCell);
+    }
+    return new FormulaError('#BUSY!');
+  }
+
+  private rebuildGraph(sheet: Sheet): void {
+    this.graph.clear();
+    this.graphSheet = sheet;
+    getCellStore(sheet).forEach((cell, row, col) => {
+      const precedents = this.getPrecedents(cell, sheet);
+      if (precedents) {
+        this.graph.setPrecedents({ row, col }, precedents);
+      }
+    });
+  }
+
+  // Collects the cells and ranges a formula cell reads from
+  private getPrecedents(cell: Cell | undefined, sheet: Sheet): CellPrecedents | null {
+    if (!cell?.formula) return null;
+    const precedents: CellPrecedents = { cells: [], ranges: [], sheetRanges: [] };
+    const ast = this.getAst(cell.formula);
+    if (ast instanceof FormulaError) return precedents;
+
+    // References naming the formula's own sheet count as local ones
+    const isOtherSheet = (name: string | undefined): name is string =>
+      name !== undefined && this.workbook?.getSheet(name) !== sheet;
+    const addRange = (range: Range, name: string | undefined) => {
+      if (isOtherSheet(name)) {
+        precedents.sheetRanges!.push({ sheet: name, range });
+      } else {
+        precedents.ranges.push(range);
+      }
+    };
+
+    const visit = (node: FormulaNode) => {
+      switch (node.type) {
+        case 'cell':
+          if (isOtherSheet(node.sheet)) {
+            precedents.sheetRanges!.push({ sheet: node.sheet, range: { start: node.ref, end: node.ref } });
+          } else {
+            precedents.cells.push({ row: node.ref.row, col: node.ref.col });
+          }
+          break;
+        case 'range':
+          addRange({
+            start: { row: node.start.row, col: node.start.col },
+            end: { row: node.end.row, col: node.end.col }
+          }, node.sheet);
+          break;
+        case 'name': {
+          // Resolved now; defining or changing names recalculates the whole sheet
+          const target = this.getReferencedSheet(node.sheet, sheet);
+          const named = target instanceof FormulaError ? undefined : getNamedRange(target, node.name);
+          if (named) {
+            addRange(named.range, node.sheet);
+          }
+          break;
+        }
+        case 'unary':
+          visit(node.operand);
+          break;
+        case 'binary':
+          visit(node.left);
+          visit(node.right);
+          break;
+        case 'function':
+          node.args.forEach(visit);
+          break;
+      }
+    };
+    visit(ast);
+    return precedents;
+  }
+
+  private getAst(formula: string): FormulaNode | FormulaError {
+    let ast = this.astCache.get(formula);
+    if (!ast) {
+      try {
+        ast = parseFormula(formula);
+      } catch (err) {
+        ast = err instanceof FormulaError ? err : new FormulaError('#ERROR!');
+      }
+      this.astCache.set(formula, ast);
+    }
+    return ast;
+  }
+
+  private evaluateNode(node: FormulaNode, sheet: Sheet): FormulaArgument {
+    switch (node.type) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        return node.value;
+      case 'error':
+        return new FormulaError(node.code);
+      case 'empty':
+        return null;
+      case 'cell':
+        return this.readReference(node.ref, node.sheet, sheet);
+      case 'range': {
+        const target = this.getReferencedSheet(node.sheet, sheet);
+        return target instanceof FormulaError ? target : this.readRange(node.start, node.end, target);
+      }
+      case 'name': {
+        const target = this.getReferencedSheet(node.sheet, sheet);
+        if (target instanceof FormulaError) return target;
+        const named = getNamedRange(target, node.name);
+        if (!named) return new FormulaError('#NAME?', `Unknown name ${node.name}`);
+        return this.readRange(named.range.start, named.range.end, target);
+      }
+      case 'unary':
+        return this.evaluateUnary(node.operator, toScalar(this.evaluateNode(node.operand, sheet)));
+      case 'binary':
+        return this.evaluateBinary(
+          node.operator,
+          toScalar(this.evaluateNode(node.left, sheet)),
+          toScalar(this.evaluateNode(node.right, sheet))
+        );
+      case 'function':
+        // Cell references are passed as 1x1 ranges, so functions treat them like ranges
+        return this.callFunction(node.name, node.args.map(arg => arg.type === 'cell'
+          ? [[this.readReference(arg.ref, arg.sheet, sheet)]]
+          : this.evaluateNode(arg, sheet)), sheet);
+    }
+  }
+
+  // The sheet a reference points at: the formula's own, or the named sheet of the workbook
+  private getReferencedSheet(name: string | undefined, sheet: Sheet): Sheet | FormulaError {
+    if (name === undefined) return sheet;
+    return this.workbook?.getSheet(name) ?? new FormulaError('#REF!', `Unknown sheet ${name}`);
+  }
+
+  private readReference(ref: CellReference, name: string | undefined, sheet: Sheet): FormulaValue {
+    const target = this.getReferencedSheet(name, sheet);
+    return target instanceof FormulaError ? target : this.readCell(ref, target);
+  }
+
+  private readCell(ref: CellReference, sheet: Sheet): FormulaValue {
+    if (ref.row >= sheet.rows.length || ref.col >= sheet.columns.length) {
+      return new FormulaError('#REF!');
+    }
+    const cell = getCell(sheet, ref.row, ref.col);
+    if (!cell) return null;
+
+    // Precedents are evaluated first, so formula cells already hold their result
+    if (cell.formula && this.isErrorValue(cell.value)) {
+      return new FormulaError(cell.value as FormulaErrorCode);
+    }
+    return cell.value;
+  }
+
+  private readRange(start: CellPosition, end: CellPosition, sheet: Sheet): FormulaRangeValue | FormulaError {
+    const startRow = Math.min(start.row, end.row);
+    const endRow = Math.max(start.row, end.row);
+    const startCol = Math.min(start.col, end.col);
+    const endCol = Math.max(start.col, end.col);
+    if (endRow >= sheet.rows.length || endCol >= sheet.columns.length) {
+      return new FormulaError('#REF!');
+    }
+
+    const values: FormulaRangeValue = [];
+    for (let row = startRow; row <= endRow; row++) {
+      const rowValues: FormulaValue[] = [];
+      for (let col = startCol; col <= endCol; col++) {
+        rowValues.push(this.readCell({ row, col, rowAbsolute: false, colAbsolute: false }, sheet));
+      }
+      values.push(rowValues);
+    }
+    return values;
+  }
+
+  private evaluateUnary(operator: '-' | '+' | '%', operand: FormulaValue): FormulaValue {
+    const n = toNumber(operand);
+    if (n instanceof FormulaError) return n;
+    switch (operator) {
+      case '-':
+        return -n;
+      case '+':
+        return n;
+      case '%':
+        return n / 100;
+    }
+  }
+
+  private evaluateBinary(operator: string, left: FormulaValue, right: FormulaValue): FormulaValue {
+    if (left instanceof FormulaError) return left;
+    if (right instanceof FormulaError) return right;
+
+    if (operator === '&') {
+      return toText(left) + toText(right);
+    }
+
+    if (['=', '<>', '<', '>', '<=', '>='].includes(operator)) {
+      const comparison = compareValues(left, right);
+      switch (operator) {
+        case '=': return comparison === 0;
+        case '<>': return comparison !== 0;
+        case '<': return comparison < 0;
+        case '>': return comparison > 0;
+        case '<=': return comparison <= 0;
+        default: return comparison >= 0;
+      }
+    }
+
+    const a = toNumber(left);
+    if (a instanceof FormulaError) return a;
+    const b = toNumber(right);
+    if (b instanceof FormulaError) return b;
+
+    switch (operator) {
+      case '+': return a + b;
+      case '-': return a - b;
+      case '*': return a * b;
+      case '/': return b === 0 ? new FormulaError('#DIV/0!') : a / b;
+      case '^': {
+        const result = Math.pow(a, b);
+        return Number.isFinite(result) ? result : new FormulaError('#NUM!');
+      }
+      default: return new FormulaError('#ERROR!');
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable } from '@angular/core';
+import { Subject } from 'rxjs';
+import { FormulaFunction } from '../models/formula.model';
+import { BUILTIN_FUNCTIONS } from '../utils/formula-functions.utils';
+
+/**
+ * Holds the functions available to formulas: the built-in library plus
+ * anything the host app registers (sync or async).
+ */
+@Injectable()
+export class FunctionRegistryService {
+  private functions = new Map<string, FormulaFunction>(Object.entries(BUILTIN_FUNCTIONS));
+
+  // Names (upper case) of functions that were added, replaced or removed
+  private changed = new Subject<string>();
+  public changed$ = this.changed.asObservable();
+
+  /**
+   * Registers (or replaces) a function. Names are case-insensitive.
+   */
+  register(name: string, fn: FormulaFunction): void {
+    const key = name.toUpperCase();
+    if (this.functions.get(key) === fn) return;
+    this.functions.set(key, fn);
+    this.changed.next(key);
+  }
+
+  /**
+   * Removes a registered function. Overridden built-ins fall back to the original.
+   */
+  unregister(name: string): void {
+    const key = name.toUpperCase();
+    if (BUILTIN_FUNCTIONS[key]) {
+      this.functions.set(key, BUILTIN_FUNCTIONS[key]);
+    } else {
+      this.functions.delete(key);
+    }
+    this.changed.next(key);
+  }
+
+  get(name: string): FormulaFunction | undefined {
+    return this.functions.get(name.toUpperCase());
+  }
+
+  has(name: string): boolean {
+    return this.functions.has(name.toUpperCase());
+  }
+
+  get names(): string[] {
+    return [...this.functions.keys()].sort();
+  }
+}
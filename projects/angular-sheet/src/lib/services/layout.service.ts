@@ -0,0 +1,251 @@
+import { Injectable } from '@angular/core';
+import { Sheet, ColumnStyle, RowStyle, OutlineGroup, StructureChange } from '../models/sheet.model';
+import { getOutlineDepth, getOutlineGroups } from '../utils/sheet.utils';
+
+// Height of the column letters strip of the header gutter
+const COLUMN_HEADER_HEIGHT = 24;
+// Browsers cap the size of an element (about 17.9M px in Firefox, 33.5M px in Chrome);
+// bigger grids scroll a spacer of this size, scaled to the whole grid
+const MAX_SCROLL_EXTENT = 15_000_000;
+
+/**
+ * Cumulative offsets along one axis. `offsets[i]` is the position of item i
+ * (the sum of the sizes before it) and `offsets[length]` the total size.
+ *
+ * Offsets are computed lazily: only the prefix that has been asked for is
+ * kept up to date, and invalidating from an index keeps everything before it.
+ */
+class AxisIndex<T> {
+  private items?: T[];
+  private offsets: number[] = [0];
+  // offsets[0..validUpTo] are correct
+  private validUpTo = 0;
+
+  constructor(private size: (item: T) => number) { }
+
+  invalidate(fromIndex: number): void {
+    this.validUpTo = Math.max(0, Math.min(this.validUpTo, fromIndex));
+  }
+
+  offset(items: T[], index: number): number {
+    this.sync(items);
+    const clamped = Math.max(0, Math.min(index, items.length));
+    this.extend(clamped);
+    return this.offsets[clamped];
+  }
+
+  total(items: T[]): number {
+    return this.offset(items, items.length);
+  }
+
+  /**
+   * Binary search for the item containing `position`, or -1 outside the axis.
+   */
+  indexAt(items: T[], position: number): number {
+    if (position < 0 || position >= this.total(items)) return -1;
+
+    let low = 0;
+    let high = items.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.offsets[mid] <= position) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
+  private sync(items: T[]): void {
+    if (items !== this.items) {
+      // A different array (e.g. a new sheet): nothing cached applies
+      this.items = items;
+      this.validUpTo = 0;
+    }
+    if (this.offsets.length !== items.length + 1) {
+      // Items were added or removed at the end; earlier offsets still hold
+      this.validUpTo = Math.min(this.validUpTo, items.length, this.offsets.length - 1);
+      this.offsets.length = items.length + 1;
+    }
+  }
+
+  private extend(upTo: number): void {
+    const items = this.items!;
+    for (let i = this.validUpTo; i < upTo; i++) {
+      this.offsets[i + 1] = this.offsets[i] + this.size(items[i]);
+    }
+    this.validUpTo = Math.max(this.validUpTo, upTo);
+  }
+}
+
+/**
+ * Pixel layout of the grid: where each column/row starts and which one
+ * contains a given point, in O(log n) instead of summing sizes on every lookup.
+ *
+ * Offsets are cached per columns/rows array. Code that changes a width or
+ * height in place must call `invalidateColumns`/`invalidateRows` with its index.
+ */
+@Injectable()
+export class LayoutService {
+  // Hidden columns/rows have no size, so no point falls inside them
+  private columns = new AxisIndex<ColumnStyle>(column => column.hidden ? 0 : column.width);
+  private rows = new AxisIndex<RowStyle>(row => row.hidden ? 0 : row.height);
+  private headersVisible = false;
+
+  // Room taken by each nesting level of outline groups
+  readonly outlineLevelSize = 14;
+
+  invalidateColumns(fromIndex = 0): void {
+    this.columns.invalidate(fromIndex);
+  }
+
+  invalidateRows(fromIndex = 0): void {
+    this.rows.invalidate(fromIndex);
+  }
+
+  // X position of the left edge of a column
+  getColumnLeft(sheet: Sheet, col: number): number {
+    return this.columns.offset(sheet.columns, col);
+  }
+
+  // Y position of the top edge of a row
+  getRowTop(sheet: Sheet, row: number): number {
+    return this.rows.offset(sheet.rows, row);
+  }
+
+  getTotalWidth(sheet: Sheet): number {
+    return this.columns.total(sheet.columns);
+  }
+
+  getTotalHeight(sheet: Sheet): number {
+    return this.rows.total(sheet.rows);
+  }
+
+  // Column containing the x position, or -1 outside the grid
+  getColumnAt(sheet: Sheet, x: number): number {
+    return this.columns.indexAt(sheet.columns, x);
+  }
+
+  // Row containing the y position, or -1 outside the grid
+  getRowAt(sheet: Sheet, y: number): number {
+    return this.rows.indexAt(sheet.rows, y);
+  }
+
+  // Shows or hides the built-in gutter with column letters and row numbers
+  setHeadersVisible(visible: boolean): void {
+    this.headersVisible = visible;
+  }
+
+  get showHeaders(): boolean {
+    return this.headersVisible;
+  }
+
+  /**
+   * Size of the gutter around the grid: the outline band (see `getOutlineSize`)
+   * plus, when headers are shown, the column letters strip (`height`) and the
+   * row numbers strip (`width`, wide enough for the last row number).
+   */
+  getGutterSize(sheet: Sheet): { width: number; height: number } {
+    const outline = this.getOutlineSize(sheet);
+    if (!this.headersVisible) return outline;
+    return {
+      width: outline.width + Math.max(40, String(sheet.rows.length).length * 8 + 16),
+      height: outline.height + COLUMN_HEADER_HEIGHT
+    };
+  }
+
+  /**
+   * Size of the outline band at the outer edge of the gutter, which holds the
+   * group brackets and +/- buttons: `width` for row groups, `height` for
+   * column groups. Zero along an axis without groups.
+   */
+  getOutlineSize(sheet: Sheet): { width: number; height: number } {
+    const size = (groups: OutlineGroup[]) => {
+      const depth = getOutlineDepth(groups);
+      return depth > 0 ? depth * this.outlineLevelSize + 4 : 0;
+    };
+    return { width: size(getOutlineGroups(sheet, 'row')), height: size(getOutlineGroups(sheet, 'column')) };
+  }
+
+  /**
+   * Grid position (along the group's axis) of the middle of an outline group's
+   * +/- button. Like in Excel it sits in the row/column right after the group.
+   */
+  getOutlineButtonCenter(sheet: Sheet, axis: StructureChange['axis'], group: OutlineGroup): number {
+    const next = axis === 'row' ? sheet.rows[group.end + 1] : sheet.columns[group.end + 1];
+    const nextSize = next && !next.hidden ? ('height' in next ? next.height : next.width) : this.outlineLevelSize;
+    const after = axis === 'row' ? this.getRowTop(sheet, group.end + 1) : this.getColumnLeft(sheet, group.end + 1);
+    return after + nextSize / 2;
+  }
+
+  // Width of the frozen columns pane, 0 when no columns are frozen
+  getFrozenWidth(sheet: Sheet): number {
+    return this.getColumnLeft(sheet, sheet.frozenColumns ?? 0);
+  }
+
+  // Height of the frozen rows pane, 0 when no rows are frozen
+  getFrozenHeight(sheet: Sheet): number {
+    return this.getRowTop(sheet, sheet.frozenRows ?? 0);
+  }
+
+  /**
+   * Size of the scroll spacer for `size` pixels of content along an axis: the
+   * content itself, or the most a browser can scroll for grids bigger than that.
+   */
+  getScrollExtent(size: number): number {
+    return Math.min(size, MAX_SCROLL_EXTENT);
+  }
+
+  /**
+   * The grid's scroll position for a scroll offset of the container. On a scaled
+   * spacer both ends line up: scrolled to the top shows the first row, to the bottom the last.
+   */
+  toGridScroll(scroll: number, size: number, viewport: number): number {
+    const extent = this.getScrollExtent(size);
+    if (extent >= size || extent <= viewport) return scroll;
+    return scroll * (size - viewport) / (extent - viewport);
+  }
+
+  // The container scroll offset that shows the grid at a scroll position (the inverse of `toGridScroll`)
+  toContainerScroll(gridScroll: number, size: number, viewport: number): number {
+    const extent = this.getScrollExtent(size);
+    if (extent >= size || extent <= viewport) return gridScroll;
+    return gridScroll * (extent - viewport) / (size - viewport);
+  }
+
+  /**
+   * Converts a point on the viewport to grid coordinates. Points over the
+   * frozen panes are not shifted by the scroll position on that axis, and
+   * points over the header gutter come out negative.
+   */
+  viewportToGrid(sheet: Sheet, x: number, y: number, scroll: { x: number; y: number }): { x: number; y: number } {
+    const gutter = this.getGutterSize(sheet);
+    const dataX = x - gutter.width;
+    const dataY = y - gutter.height;
+    return {
+      x: dataX < this.getFrozenWidth(sheet) ? dataX : dataX + scroll.x,
+      y: dataY < this.getFrozenHeight(sheet) ? dataY : dataY + scroll.y
+    };
+  }
+
+  /**
+   * Pixel rectangle covered by a block of cells (inclusive indexes).
+   */
+  getRangeRect(
+    sheet: Sheet,
+    startRow: number,
+    startCol: number,
+    endRow: number,
+    endCol: number
+  ): { x: number; y: number; width: number; height: number } {
+    const x = this.getColumnLeft(sheet, startCol);
+    const y = this.getRowTop(sheet, startRow);
+    return {
+      x,
+      y,
+      width: this.getColumnLeft(sheet, endCol + 1) - x,
+      height: this.getRowTop(sheet, endRow + 1) - y
+    };
+  }
+}
@@ -1,10 +1,31 @@
 import { Injectable, inject, EventEmitter } from '@angular/core';
-import { Sheet, Cell, CellRenderer } from '../models/sheet.model';
+import { Sheet, Cell, CellRenderer, CellStyles } from '../models/sheet.model';
 import { StateService, HighlightState, MouseMode } from './state.service';
 import { AnimationService } from './animation.service';
 import { DataService } from './data.service';
 import { FpsService } from './fps.service';
-import { getAccumulatedHeight, getAccumulatedWidth } from '../utils/sheet.utils';
+import { LayoutService } from './layout.service';
+import { ConditionalFormatService } from './conditional-format.service';
+import {
+  columnIndexToLetter,
+  getCellStore,
+  getOutlineGroups,
+  getOutlineLevel,
+  getShownOutlineGroups,
+  normalizeRange,
+  rangeContains,
+  rangesIntersect
+} from '../utils/sheet.utils';
+import { formatValue } from '../utils/format.utils';
+import { getFont, getFontSize, hasBorders, parseBorder, parsePadding, resolveCellStyles, wrapText } from '../utils/style.utils';
+
+interface CellBox {
+  styles: CellStyles;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 interface ButtonHitArea {
   cellId: string;
@@ -21,16 +42,24 @@ export class RenderService {
   private stateService = inject(StateService);
   private dataService = inject(DataService);
   private fpsService = inject(FpsService);
+  private layoutService = inject(LayoutService);
+  private conditionalFormatService = inject(ConditionalFormatService);
 
   public frameRendered = new EventEmitter<void>();
 
   private canvas?: HTMLCanvasElement;
   private scrollContainer?: HTMLElement;
+  private scrollContent?: HTMLElement;
   private buttonHitAreas: ButtonHitArea[] = [];
   private readonly styleSelectionBorder = '#3A714A';
   private readonly styleSelectionFill = '#00000020';
+  private readonly styleHeaderFill = '#f3f3f3';
+  private readonly styleHeaderSelectedFill = '#d3e3d7';
+  private readonly styleInputErrorMarker = '#d93025';
   private currentHoverPoint: { x: number; y: number } | null = null;
   private hoveredCellCoords: { row: number; col: number } | null = null;
+  // Stand-in for positions that have no stored cell
+  private readonly emptyCell = new Cell(null);
 
   // New properties for throttling and dirty checking
   private renderPending = false;
@@ -39,9 +68,10 @@ export class RenderService {
   private readonly minRenderInterval = 16; // Cap at around 60fps (~16.7ms)
   private readonly maxFps = 60; // Max FPS to enforce
 
-  setCanvas(canvas: HTMLCanvasElement, scrollContainer: HTMLElement) {
+  setCanvas(canvas: HTMLCanvasElement, scrollContainer: HTMLElement, scrollContent: HTMLElement) {
     this.canvas = canvas;
     this.scrollContainer = scrollContainer;
+    this.scrollContent = scrollContent;
   }
 
   setHoverPoint(point: { x: number; y: number } | null, cellCoords: { row: number; col: number } | null) {
@@ -121,17 +151,20 @@ export class RenderService {
 
     this.buttonHitAreas = [];
 
-    const clipRegion = {
-      left: this.scrollContainer.scrollLeft,
-      right: this.scrollContainer.scrollLeft + this.scrollContainer.clientWidth,
-      top: this.scrollContainer.scrollTop,
-      bottom: this.scrollContainer.scrollTop + this.scrollContainer.clientHeight
-    };
-
     // Track FPS only when we actually render something
     this.fpsService.trackFrame();
 
-    this.drawSheet(ctx, clipRegion);
+    // The canvas covers the viewport only: everything below is drawn in grid
+    // coordinates and shifted by the scroll offset
+    this.syncCanvasToViewport(this.canvas);
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, this.scrollContainer.clientWidth, this.scrollContainer.clientHeight);
+
+    const sheet = this.dataService.getSheetData();
+    if (sheet) {
+      this.drawPanes(ctx, sheet);
+    }
 
     // Reset dirty flag after render
     this.isDirty = false;
@@ -157,30 +190,284 @@ export class RenderService {
     return undefined;
   }
 
-  private drawSheet(
-    ctx: CanvasRenderingContext2D,
-    clipRegion: { left: number; right: number; top: number; bottom: number }
-  ): void {
-    const sheet = this.dataService.getSheetData();
-    if (!sheet) return;
+  /**
+   * Draws the grid in up to four panes: the frozen corner, the frozen rows
+   * (scrolling horizontally only), the frozen columns (scrolling vertically only)
+   * and the body. Each pane is clipped to its part of the viewport.
+   */
+  private drawPanes(ctx: CanvasRenderingContext2D, sheet: Sheet): void {
+    if (!this.scrollContainer) return;
 
-    // Update canvas size if resizing
+    // Update scrollable area if resizing
     if (
       this.stateService.mouseMode === MouseMode.RESIZING_COLUMN ||
       this.stateService.mouseMode === MouseMode.RESIZING_ROW
     ) {
-      this.updateCanvasSize(ctx.canvas, sheet);
+      this.updateScrollExtent(sheet);
+    }
+
+    const { clientWidth, clientHeight } = this.scrollContainer;
+    const { x: scrollLeft, y: scrollTop } = this.getGridScroll(sheet);
+    // Cells are drawn right of/below the header gutter
+    const gutter = this.layoutService.getGutterSize(sheet);
+    const dataWidth = Math.max(0, clientWidth - gutter.width);
+    const dataHeight = Math.max(0, clientHeight - gutter.height);
+    const frozenWidth = Math.min(this.layoutService.getFrozenWidth(sheet), dataWidth);
+    const frozenHeight = Math.min(this.layoutService.getFrozenHeight(sheet), dataHeight);
+
+    // Pane positions are relative to the top-left corner of the data area
+    const panes = [
+      { x: frozenWidth, y: frozenHeight, width: dataWidth - frozenWidth, height: dataHeight - frozenHeight, scrollX: scrollLeft, scrollY: scrollTop },
+      { x: frozenWidth, y: 0, width: dataWidth - frozenWidth, height: frozenHeight, scrollX: scrollLeft, scrollY: 0 },
+      { x: 0, y: frozenHeight, width: frozenWidth, height: dataHeight - frozenHeight, scrollX: 0, scrollY: scrollTop },
+      { x: 0, y: 0, width: frozenWidth, height: frozenHeight, scrollX: 0, scrollY: 0 }
+    ];
+
+    for (const pane of panes) {
+      if (pane.width <= 0 || pane.height <= 0) continue;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(gutter.width + pane.x, gutter.height + pane.y, pane.width, pane.height);
+      ctx.clip();
+      ctx.translate(gutter.width - pane.scrollX, gutter.height - pane.scrollY);
+      this.drawSheet(ctx, sheet, {
+        left: pane.x + pane.scrollX,
+        right: pane.x + pane.width + pane.scrollX,
+        top: pane.y + pane.scrollY,
+        bottom: pane.y + pane.height + pane.scrollY
+      });
+      ctx.restore();
+    }
+
+    if (this.layoutService.showHeaders) {
+      const outline = this.layoutService.getOutlineSize(sheet);
+      this.drawHeaderStrip(ctx, sheet, 'column', 0, frozenWidth, 0);
+      this.drawHeaderStrip(ctx, sheet, 'column', frozenWidth, dataWidth - frozenWidth, scrollLeft);
+      this.drawHeaderStrip(ctx, sheet, 'row', 0, frozenHeight, 0);
+      this.drawHeaderStrip(ctx, sheet, 'row', frozenHeight, dataHeight - frozenHeight, scrollTop);
+      this.drawHeaderCell(ctx, '', outline.width, outline.height, gutter.width - outline.width, gutter.height - outline.height, false);
+    }
+    this.drawOutlineStrip(ctx, sheet, 'column', 0, frozenWidth, 0);
+    this.drawOutlineStrip(ctx, sheet, 'column', frozenWidth, dataWidth - frozenWidth, scrollLeft);
+    this.drawOutlineStrip(ctx, sheet, 'row', 0, frozenHeight, 0);
+    this.drawOutlineStrip(ctx, sheet, 'row', frozenHeight, dataHeight - frozenHeight, scrollTop);
+
+    // Separators between the frozen panes and the body
+    ctx.strokeStyle = '#9e9e9e';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    if (frozenWidth > 0) {
+      ctx.moveTo(gutter.width + frozenWidth + 0.5, 0);
+      ctx.lineTo(gutter.width + frozenWidth + 0.5, clientHeight);
+    }
+    if (frozenHeight > 0) {
+      ctx.moveTo(0, gutter.height + frozenHeight + 0.5);
+      ctx.lineTo(clientWidth, gutter.height + frozenHeight + 0.5);
+    }
+    ctx.stroke();
+  }
+
+  /**
+   * Draws the column letters or row numbers for one stretch of the gutter
+   * (`start`/`length` relative to the data area, scrolled by `scroll`).
+   */
+  private drawHeaderStrip(
+    ctx: CanvasRenderingContext2D,
+    sheet: Sheet,
+    axis: 'row' | 'column',
+    start: number,
+    length: number,
+    scroll: number
+  ): void {
+    if (length <= 0) return;
+    const isColumn = axis === 'column';
+    const gutter = this.layoutService.getGutterSize(sheet);
+    // The headers sit between the outline band and the cells
+    const outline = this.layoutService.getOutlineSize(sheet);
+    const stripWidth = gutter.width - outline.width;
+    const stripHeight = gutter.height - outline.height;
+    const indexAt = (position: number) => isColumn
+      ? this.layoutService.getColumnAt(sheet, position)
+      : this.layoutService.getRowAt(sheet, position);
+
+    const lines: { hidden?: boolean }[] = isColumn ? sheet.columns : sheet.rows;
+    let first = indexAt(start + scroll);
+    if (first < 0) return;
+    // Hidden ones right before the first visible header still get their marker
+    while (first > 0 && lines[first - 1].hidden) first--;
+    const last = this.lastIndexAt(indexAt(start + length + scroll), lines.length);
+    const selections = this.stateService.selections
+      .filter(selection => selection.start.row >= 0)
+      .map(selection => normalizeRange(selection));
+
+    ctx.save();
+    ctx.beginPath();
+    if (isColumn) {
+      ctx.rect(gutter.width + start, outline.height, length, stripHeight);
+    } else {
+      ctx.rect(outline.width, gutter.height + start, stripWidth, length);
+    }
+    ctx.clip();
+
+    const hiddenAt: number[] = [];
+    for (let index = first; index <= last; index++) {
+      const position = isColumn
+        ? gutter.width + this.layoutService.getColumnLeft(sheet, index) - scroll
+        : gutter.height + this.layoutService.getRowTop(sheet, index) - scroll;
+      if (lines[index].hidden) {
+        hiddenAt.push(position);
+        continue;
+      }
+      // Headers of the selected rows/columns are highlighted
+      const isSelected = selections.some(selection => isColumn
+        ? index >= selection.start.col && index <= selection.end.col
+        : index >= selection.start.row && index <= selection.end.row);
+      if (isColumn) {
+        this.drawHeaderCell(ctx, columnIndexToLetter(index), position, outline.height, sheet.columns[index].width, stripHeight, isSelected);
+      } else {
+        this.drawHeaderCell(ctx, String(index + 1), outline.width, position, stripWidth, sheet.rows[index].height, isSelected);
+      }
+    }
+
+    // Hidden rows/columns show as a double line where they would be
+    ctx.strokeStyle = '#555555';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (const position of hiddenAt) {
+      for (const offset of [-1.5, 1.5]) {
+        if (isColumn) {
+          ctx.moveTo(position + offset, outline.height);
+          ctx.lineTo(position + offset, gutter.height);
+        } else {
+          ctx.moveTo(outline.width, position + offset);
+          ctx.lineTo(gutter.width, position + offset);
+        }
+      }
+    }
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /**
+   * Draws the outline group brackets and +/- buttons for one stretch of the
+   * outline band (`start`/`length` relative to the data area, scrolled by `scroll`).
+   */
+  private drawOutlineStrip(
+    ctx: CanvasRenderingContext2D,
+    sheet: Sheet,
+    axis: 'row' | 'column',
+    start: number,
+    length: number,
+    scroll: number
+  ): void {
+    const groups = getOutlineGroups(sheet, axis);
+    if (length <= 0 || groups.length === 0) return;
+    const isRow = axis === 'row';
+    const gutter = this.layoutService.getGutterSize(sheet);
+    const outline = this.layoutService.getOutlineSize(sheet);
+    const levelSize = this.layoutService.outlineLevelSize;
+    // Positions along the axis in viewport coordinates
+    const toViewport = (position: number) => (isRow ? gutter.height : gutter.width) + position - scroll;
+    const edge = (index: number) => isRow ? this.layoutService.getRowTop(sheet, index) : this.layoutService.getColumnLeft(sheet, index);
+    // Draws a line given as (along the axis, across the band) coordinates
+    const line = (along1: number, across1: number, along2: number, across2: number) => {
+      if (isRow) {
+        ctx.moveTo(across1, along1);
+        ctx.lineTo(across2, along2);
+      } else {
+        ctx.moveTo(along1, across1);
+        ctx.lineTo(along2, across2);
+      }
+    };
+
+    ctx.save();
+    ctx.beginPath();
+    if (isRow) {
+      ctx.rect(0, gutter.height + start, outline.width, length);
+    } else {
+      ctx.rect(gutter.width + start, 0, length, outline.height);
+    }
+    ctx.clip();
+    ctx.strokeStyle = '#555555';
+    ctx.lineWidth = 1;
+
+    for (const group of getShownOutlineGroups(groups)) {
+      const across = 2 + getOutlineLevel(groups, group) * levelSize + levelSize / 2;
+      const button = Math.round(toViewport(this.layoutService.getOutlineButtonCenter(sheet, axis, group))) + 0.5;
+      ctx.beginPath();
+      // An expanded group gets a bracket from its first row/column up to its button
+      if (!group.collapsed) {
+        const first = toViewport(edge(group.start)) + 2.5;
+        line(first, across - levelSize / 2 + 3, first, across);
+        line(first, across, button - 4.5, across);
+      }
+      ctx.stroke();
+
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(isRow ? across - 4.5 : button - 4.5, isRow ? button - 4.5 : across - 4.5, 9, 9);
+      ctx.strokeRect(isRow ? across - 4.5 : button - 4.5, isRow ? button - 4.5 : across - 4.5, 9, 9);
+      ctx.beginPath();
+      line(button, across - 2.5, button, across + 2.5);
+      if (group.collapsed) {
+        line(button - 2.5, across, button + 2.5, across);
+      }
+      ctx.stroke();
     }
+    ctx.restore();
+  }
+
+  private drawHeaderCell(
+    ctx: CanvasRenderingContext2D,
+    label: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    isSelected: boolean
+  ): void {
+    ctx.fillStyle = isSelected ? this.styleHeaderSelectedFill : this.styleHeaderFill;
+    ctx.fillRect(x, y, width, height);
+
+    ctx.strokeStyle = '#c0c0c0';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(x + width - 0.5, y);
+    ctx.lineTo(x + width - 0.5, y + height);
+    ctx.moveTo(x, y + height - 0.5);
+    ctx.lineTo(x + width, y + height - 0.5);
+    ctx.stroke();
+
+    ctx.fillStyle = isSelected ? this.styleSelectionBorder : '#555555';
+    ctx.font = `${isSelected ? 'bold ' : ''}12px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, x + width / 2, y + height / 2);
+    ctx.textAlign = 'start';
+    ctx.textBaseline = 'alphabetic';
+  }
 
+  private drawSheet(
+    ctx: CanvasRenderingContext2D,
+    sheet: Sheet,
+    clipRegion: { left: number; right: number; top: number; bottom: number }
+  ): void {
     // Actually draw all cells
     this.drawCells(ctx, sheet, clipRegion);
 
-    // Draw normal selection highlight
-    this.drawHighlight(ctx, sheet, clipRegion, this.stateService.selection, false);
+    // Draw normal selection highlight, one per range; the fill handle only belongs to a single range
+    const selections = this.stateService.selections;
+    if (selections.length > 1) {
+      this.stateService.setDragHandleArea(null);
+    }
+    selections.forEach(selection =>
+      this.drawHighlight(ctx, sheet, clipRegion, selection, false, selections.length === 1)
+    );
 
     // If copying, show marching ants
     if (this.stateService.showMarchingAnts) {
-      this.drawHighlight(ctx, sheet, clipRegion, this.stateService.copyHighlight, true);
+      this.stateService.copyHighlights.forEach(copyHighlight =>
+        this.drawHighlight(ctx, sheet, clipRegion, copyHighlight, true, false)
+      );
     }
 
     // HERE is the key: draw the drag-fill preview if user is dragging
@@ -201,32 +488,64 @@ export class RenderService {
     }
   }
 
-  private updateCanvasSize(canvas: HTMLCanvasElement, sheet: Sheet): void {
-    if (!sheet) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  /**
+   * Sizes the scroll content to the whole grid, which gives the container its scrollbars.
+   */
+  updateScrollExtent(sheet: Sheet): void {
+    if (!sheet || !this.scrollContent) return;
 
     // Calculate total dimensions based on current column widths & row heights
-    const totalWidth = sheet.columns.reduce((sum, col) => sum + col.width, 0);
-    const totalHeight = sheet.rows.reduce((sum, row) => sum + row.height, 0);
+    const totalWidth = this.layoutService.getTotalWidth(sheet);
+    const totalHeight = this.layoutService.getTotalHeight(sheet);
 
-    // We no longer add extra space for row/column headers, 
-    // because they’re just part of the grid now.
+    // The header gutter takes up room next to the cells
+    const gutter = this.layoutService.getGutterSize(sheet);
+    this.scrollContent.style.width = `${this.layoutService.getScrollExtent(totalWidth + gutter.width)}px`;
+    this.scrollContent.style.height = `${this.layoutService.getScrollExtent(totalHeight + gutter.height)}px`;
+  }
+
+  /**
+   * How far the grid is scrolled. It differs from the container's own scroll
+   * offsets on grids too big for the browser to scroll natively (see `updateScrollExtent`).
+   */
+  public getGridScroll(sheet: Sheet): { x: number; y: number } {
+    if (!this.scrollContainer) return { x: 0, y: 0 };
+    const { scrollLeft, scrollTop, clientWidth, clientHeight } = this.scrollContainer;
+    const { width, height } = this.getContentSize(sheet);
+    return {
+      x: this.layoutService.toGridScroll(scrollLeft, width, clientWidth),
+      y: this.layoutService.toGridScroll(scrollTop, height, clientHeight)
+    };
+  }
+
+  // Size of the grid including the header gutter
+  private getContentSize(sheet: Sheet): { width: number; height: number } {
+    const gutter = this.layoutService.getGutterSize(sheet);
+    return {
+      width: this.layoutService.getTotalWidth(sheet) + gutter.width,
+      height: this.layoutService.getTotalHeight(sheet) + gutter.height
+    };
+  }
+
+  /**
+   * Matches the canvas to the visible area of the scroll container.
+   * The canvas never gets bigger than the viewport, however large the grid is.
+   */
+  private syncCanvasToViewport(canvas: HTMLCanvasElement): void {
+    if (!this.scrollContainer) return;
+
+    const width = this.scrollContainer.clientWidth;
+    const height = this.scrollContainer.clientHeight;
 
     // Handle high DPI displays
     const dpr = window.devicePixelRatio || 1;
 
     // Only update if size changed
-    const currentWidth = canvas.width / dpr;
-    const currentHeight = canvas.height / dpr;
-
-    if (currentWidth !== totalWidth || currentHeight !== totalHeight) {
-      canvas.width = totalWidth * dpr;
-      canvas.height = totalHeight * dpr;
-      canvas.style.width = `${totalWidth}px`;
-      canvas.style.height = `${totalHeight}px`;
-      ctx.scale(dpr, dpr);
+    if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
     }
   }
 
@@ -235,63 +554,93 @@ export class RenderService {
     sheet: Sheet,
     clipRegion: { left: number; right: number; top: number; bottom: number }
   ): void {
-    let yOffset = 0;
-    sheet.rows.forEach((row, rowIndex) => {
-      const rowTop = yOffset;
-      const rowBottom = rowTop + row.height;
-      if (rowBottom < clipRegion.top || rowTop > clipRegion.bottom) {
-        yOffset += row.height;
-        return; // skip
-      }
-
-      let xOffset = 0;
-      sheet.columns.forEach((col, colIndex) => {
-        const colLeft = xOffset;
-        const colRight = colLeft + col.width;
-        if (colRight < clipRegion.left || colLeft > clipRegion.right) {
-          xOffset += col.width;
-          return; // skip
-        }
+    // Only the rows/columns intersecting the viewport are visited
+    const firstRow = this.layoutService.getRowAt(sheet, clipRegion.top);
+    const firstCol = this.layoutService.getColumnAt(sheet, clipRegion.left);
+    if (firstRow < 0 || firstCol < 0) return;
+    const lastRow = this.lastIndexAt(this.layoutService.getRowAt(sheet, clipRegion.bottom), sheet.rows.length);
+    const lastCol = this.lastIndexAt(this.layoutService.getColumnAt(sheet, clipRegion.right), sheet.columns.length);
+    const store = getCellStore(sheet);
+
+    // Merged areas in view are drawn once, as a whole, instead of the cells they cover
+    const merges = (sheet.merges ?? [])
+      .map(merge => normalizeRange(merge))
+      .filter(merge => rangesIntersect(merge, { start: { row: firstRow, col: firstCol }, end: { row: lastRow, col: lastCol } }));
+    const bordered: CellBox[] = [];
+
+    for (let rowIndex = firstRow; rowIndex <= lastRow; rowIndex++) {
+      const row = sheet.rows[rowIndex];
+      if (row.hidden) continue;
+      const rowTop = this.layoutService.getRowTop(sheet, rowIndex);
+
+      for (let colIndex = firstCol; colIndex <= lastCol; colIndex++) {
+        const col = sheet.columns[colIndex];
+        if (col.hidden) continue;
+        if (merges.length > 0 && merges.some(merge => rangeContains(merge, rowIndex, colIndex))) continue;
+        const colLeft = this.layoutService.getColumnLeft(sheet, colIndex);
 
         // Actually draw the cell
-        const cell = sheet.cells[rowIndex][colIndex];
-        const returnedHitArea = this.drawCell(ctx, cell, colLeft, rowTop, col.width, row.height);
-
-        // If there’s a custom button area, store it
-        if (returnedHitArea) {
-          // Adjust for scrolling:
-          //   The renderer draws at (colLeft, rowTop) in *canvas space*,
-          //   but the user’s mouse event offsets are also in *canvas space*.
-          //   So we do NOT subtract scroll amounts here; we keep raw canvas coords.
-          this.buttonHitAreas.push({
-            cellId: returnedHitArea.cellId,
-            x: returnedHitArea.hitArea.x,
-            y: returnedHitArea.hitArea.y,
-            width: returnedHitArea.hitArea.width,
-            height: returnedHitArea.hitArea.height,
-            onClick: returnedHitArea.onClick
-          });
+        // Positions without a stored cell are drawn as a blank default cell
+        const cell = store.get(rowIndex, colIndex) ?? this.emptyCell;
+        const box = { styles: this.getCellStyles(sheet, rowIndex, colIndex, cell), x: colLeft, y: rowTop, width: col.width, height: row.height };
+        this.drawCellWithHitArea(ctx, cell, box);
+        if (hasBorders(box.styles)) {
+          bordered.push(box);
         }
+      }
+    }
 
-        xOffset += col.width;
-      });
+    for (const merge of merges) {
+      const rect = this.layoutService.getRangeRect(sheet, merge.start.row, merge.start.col, merge.end.row, merge.end.col);
+      const cell = store.get(merge.start.row, merge.start.col) ?? this.emptyCell;
+      const box = { styles: this.getCellStyles(sheet, merge.start.row, merge.start.col, cell), ...rect };
+      this.drawCellWithHitArea(ctx, cell, box);
+      if (hasBorders(box.styles)) {
+        bordered.push(box);
+      }
+    }
 
-      yOffset += row.height;
-    });
+    // Borders are drawn after every background, so a neighbour cannot paint over half of a shared edge
+    for (const box of bordered) {
+      this.drawCellBorders(ctx, box);
+    }
+  }
+
+  // The cascaded styles of a cell with the conditional formats it matches applied
+  private getCellStyles(sheet: Sheet, row: number, col: number, cell: Cell): CellStyles {
+    const styles = resolveCellStyles(sheet, row, col, cell);
+    return this.conditionalFormatService.applyFormats(sheet, row, col, cell, styles);
+  }
+
+  private drawCellWithHitArea(ctx: CanvasRenderingContext2D, cell: Cell, box: CellBox): void {
+    const returnedHitArea = this.drawCell(ctx, cell, box);
+
+    // If there’s a custom button area, store it
+    if (returnedHitArea) {
+      // The renderer draws at (x, y) in *grid space*; mouse
+      // events are converted to grid space too before hit testing,
+      // so we keep the raw grid coords.
+      this.buttonHitAreas.push({
+        cellId: returnedHitArea.cellId,
+        x: returnedHitArea.hitArea.x,
+        y: returnedHitArea.hitArea.y,
+        width: returnedHitArea.hitArea.width,
+        height: returnedHitArea.hitArea.height,
+        onClick: returnedHitArea.onClick
+      });
+    }
   }
 
   /**
-   * Draws a single cell, optionally using a customRenderer.
+   * Draws a single cell with its resolved styles, optionally using a customRenderer.
    * Returns a `hitArea` object if the renderer provides one.
    */
   private drawCell(
     ctx: CanvasRenderingContext2D,
     cell: Cell,
-    x: number,
-    y: number,
-    width: number,
-    height: number
+    box: CellBox
   ): { cellId: string; hitArea: { x: number; y: number; width: number; height: number }; onClick?: () => void } | undefined {
+    const { styles, x, y, width, height } = box;
     if (cell.customRenderer) {
 
       let hoverPoint;
@@ -319,7 +668,7 @@ export class RenderService {
         x,
         y,
         ctx,
-        styles: cell.styles,
+        styles,
         isSelected: this.isCellSelected(cell),
         isFocused: cell.isFocused,
         hoverPoint
@@ -331,7 +680,7 @@ export class RenderService {
       return result as any; // Assume it returns { cellId, hitArea, onClick }
     } else {
       // Default canvas-based rendering
-      ctx.fillStyle = cell.styles.backgroundColor;
+      ctx.fillStyle = styles.backgroundColor;
       ctx.fillRect(x, y, width, height);
 
       // Draw grid lines with a lighter color
@@ -343,33 +692,125 @@ export class RenderService {
       ctx.lineTo(x + width, y + height);
       ctx.stroke();
 
-      ctx.fillStyle = cell.styles.color;
-      ctx.font = `${cell.styles.fontSize} ${cell.styles.fontFamily}`;
-      const fontSizeNum = parseInt(cell.styles.fontSize.replace('px', ''), 10) || 12;
-      const textY = y + Math.floor(height / 2 + fontSizeNum / 2) - 2;
-      ctx.fillText(
-        cell.value?.toString() ?? '',
-        x + this.stateService.defaultCellPaddingLeft,
-        textY
-      );
+      // The stored value stays raw; only the drawn text is formatted
+      const { text, color } = formatValue(cell.value, cell.formatter, this.dataService.getSheetData()?.locale);
+      if (text) {
+        this.drawCellText(ctx, text, box, color);
+      }
+      if (cell.inputError) {
+        // Input the datatype couldn't read is marked in the top-left corner, like Excel's error indicator
+        ctx.fillStyle = this.styleInputErrorMarker;
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+        ctx.lineTo(x + 6, y);
+        ctx.lineTo(x, y + 6);
+        ctx.closePath();
+        ctx.fill();
+      }
       return undefined;
     }
   }
 
+  /**
+   * Draws a cell's text inside its padding, aligned and (if `wrap` is set) broken
+   * into lines. Text that does not fit is clipped to the cell. `color` (from the
+   * number format) replaces the text color.
+   */
+  private drawCellText(ctx: CanvasRenderingContext2D, text: string, box: CellBox, color = box.styles.color): void {
+    const { styles, x, y, width, height } = box;
+    const padding = parsePadding(styles.padding);
+    const innerWidth = Math.max(width - padding.left - padding.right, 0);
+    const innerHeight = Math.max(height - padding.top - padding.bottom, 0);
+
+    ctx.save();
+    ctx.font = getFont(styles);
+    ctx.fillStyle = color;
+    ctx.textAlign = styles.textAlign;
+    ctx.textBaseline = 'middle';
+
+    const lines = styles.wrap ? wrapText(ctx, text, innerWidth) : [text.replace(/\n/g, ' ')];
+    const lineHeight = Math.round(getFontSize(styles) * 1.2);
+    const textHeight = lines.length * lineHeight;
+    if (textHeight > innerHeight || lines.some(line => ctx.measureText(line).width > innerWidth)) {
+      ctx.beginPath();
+      ctx.rect(x, y, width, height);
+      ctx.clip();
+    }
+
+    const left = x + padding.left;
+    const textX = styles.textAlign === 'center' ? left + innerWidth / 2
+      : styles.textAlign === 'right' ? left + innerWidth
+      : left;
+    const top = y + padding.top;
+    let lineY = styles.verticalAlign === 'top' ? top
+      : styles.verticalAlign === 'bottom' ? top + innerHeight - textHeight
+      : top + (innerHeight - textHeight) / 2;
+    for (const line of lines) {
+      ctx.fillText(line, textX, lineY + lineHeight / 2);
+      lineY += lineHeight;
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Draws the four CSS-style borders of a cell, centred on its edges so the
+   * borders of neighbouring cells meet on the same line.
+   */
+  private drawCellBorders(ctx: CanvasRenderingContext2D, box: CellBox): void {
+    const { styles, x, y, width, height } = box;
+    const sides: [string, boolean, number, number, number][] = [
+      // border, horizontal, edge, from, to
+      [styles.borderTop, true, y, x, x + width],
+      [styles.borderBottom, true, y + height, x, x + width],
+      [styles.borderLeft, false, x, y, y + height],
+      [styles.borderRight, false, x + width, y, y + height]
+    ];
+
+    ctx.save();
+    for (const [shorthand, horizontal, edge, from, to] of sides) {
+      const border = parseBorder(shorthand, styles.color);
+      if (!border) continue;
+      // Odd widths sit on half pixels to stay crisp
+      const shift = Math.round(border.width) % 2 === 1 ? 0.5 : 0;
+      const center = edge - shift;
+      // Lines run on over the corners, up to the far side of the crossing borders
+      const start = from - shift - border.width / 2;
+      const end = to - shift + border.width / 2;
+      // A double border is two lines a third as thick along the outsides of its width
+      const lineWidth = border.style === 'double' && border.width >= 3 ? Math.round(border.width / 3) : border.width;
+      const offsets = lineWidth === border.width ? [0] : [(lineWidth - border.width) / 2, (border.width - lineWidth) / 2];
+
+      ctx.strokeStyle = border.color;
+      ctx.lineWidth = lineWidth;
+      ctx.setLineDash(
+        border.style === 'dashed' ? [lineWidth * 3, lineWidth * 2]
+          : border.style === 'dotted' ? [lineWidth, lineWidth]
+          : []
+      );
+      ctx.beginPath();
+      for (const offset of offsets) {
+        if (horizontal) {
+          ctx.moveTo(start, center + offset);
+          ctx.lineTo(end, center + offset);
+        } else {
+          ctx.moveTo(center + offset, start);
+          ctx.lineTo(center + offset, end);
+        }
+      }
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  // Index found at the far edge of the viewport, or the last one when the grid ends before it
+  private lastIndexAt(index: number, count: number): number {
+    return index < 0 ? count - 1 : index;
+  }
+
   private isCellSelected(cell: Cell): boolean {
     if (cell.rowIndex == null || cell.columnIndex == null) return false;
-    const { start, end } = this.stateService.selection;
-    const minRow = Math.min(start.row, end.row);
-    const maxRow = Math.max(start.row, end.row);
-    const minCol = Math.min(start.col, end.col);
-    const maxCol = Math.max(start.col, end.col);
-
-    return (
-      cell.rowIndex >= minRow &&
-      cell.rowIndex <= maxRow &&
-      cell.columnIndex >= minCol &&
-      cell.columnIndex <= maxCol
-    );
+    const { rowIndex, columnIndex } = cell;
+    return this.stateService.selections.some(selection => rangeContains(selection, rowIndex, columnIndex));
   }
 
   // =============================================
@@ -388,18 +829,12 @@ export class RenderService {
     const startCol = Math.min(previewStart.col, previewEnd.col);
     const endCol = Math.max(previewStart.col, previewEnd.col);
 
-    const highlightY = getAccumulatedHeight(sheet.rows, startRow);
-    const highlightX = getAccumulatedWidth(sheet.columns, startCol);
-
-    // The total height/width of the preview region
-    const highlightHeight = getAccumulatedHeight(
-      sheet.rows.slice(startRow, endRow + 1),
-      endRow - startRow + 1
-    );
-    const highlightWidth = getAccumulatedWidth(
-      sheet.columns.slice(startCol, endCol + 1),
-      endCol - startCol + 1
-    );
+    const {
+      x: highlightX,
+      y: highlightY,
+      width: highlightWidth,
+      height: highlightHeight
+    } = this.layoutService.getRangeRect(sheet, startRow, startCol, endRow, endCol);
 
     const selRight = highlightX + highlightWidth;
     const selBottom = highlightY + highlightHeight;
@@ -432,7 +867,8 @@ export class RenderService {
     sheet: Sheet,
     clipRegion: { left: number; right: number; top: number; bottom: number },
     highlight: HighlightState,
-    showMarchingAnts: boolean
+    showMarchingAnts: boolean,
+    showHandle: boolean
   ): void {
     if (highlight.start.row < 0) return;
 
@@ -441,17 +877,12 @@ export class RenderService {
     const startCol = Math.min(highlight.start.col, highlight.end.col);
     const endCol = Math.max(highlight.start.col, highlight.end.col);
 
-    const highlightY = getAccumulatedHeight(sheet.rows, startRow);
-    const highlightX = getAccumulatedWidth(sheet.columns, startCol);
-
-    const highlightHeight = getAccumulatedHeight(
-      sheet.rows.slice(startRow, endRow + 1),
-      endRow - startRow + 1
-    );
-    const highlightWidth = getAccumulatedWidth(
-      sheet.columns.slice(startCol, endCol + 1),
-      endCol - startCol + 1
-    );
+    const {
+      x: highlightX,
+      y: highlightY,
+      width: highlightWidth,
+      height: highlightHeight
+    } = this.layoutService.getRangeRect(sheet, startRow, startCol, endRow, endCol);
 
     const selRight = highlightX + highlightWidth;
     const selBottom = highlightY + highlightHeight;
@@ -487,7 +918,7 @@ export class RenderService {
     ctx.setLineDash([]);
 
     // Draw drag handle if not showing marching ants
-    if (!showMarchingAnts) {
+    if (!showMarchingAnts && showHandle) {
       const handleRadius = 4;
       const handleX = highlightX + highlightWidth;
       const handleY = highlightY + highlightHeight;
@@ -510,41 +941,60 @@ export class RenderService {
   initCanvasSize(canvas: HTMLCanvasElement, sheet: Sheet): void {
     if (!sheet) return;
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    let totalWidth = sheet.columns.reduce((sum, col) => sum + col.width, 0);
-    let totalHeight = sheet.rows.reduce((sum, row) => sum + row.height, 0);
-
-    // No extra space for headers — they're in the grid now.
-
-    // Handle high DPI displays
-    const dpr = window.devicePixelRatio || 1;
-
-    // Set the canvas size in pixels
-    canvas.width = totalWidth * dpr;
-    canvas.height = totalHeight * dpr;
-
-    // Set the display size in CSS pixels
-    canvas.style.width = `${totalWidth}px`;
-    canvas.style.height = `${totalHeight}px`;
-
-    // Scale the context to handle high DPI screens
-    ctx.scale(dpr, dpr);
+    this.updateScrollExtent(sheet);
+    this.syncCanvasToViewport(canvas);
 
     // Immediately draw after initializing size
-    this.drawSheet(ctx, {
-      left: 0,
-      right: totalWidth,
-      top: 0,
-      bottom: totalHeight
-    });
+    this.markDirty();
   }
 
   // initDragHandleArea(sheet: Sheet): void {
   //   const rowW=
   // }
 
+  /**
+   * Scrolls the container just enough for the cell to be fully visible.
+   */
+  public scrollCellIntoView(row: number, col: number, sheet: Sheet): void {
+    if (!this.scrollContainer) return;
+    const container = this.scrollContainer;
+
+    const { x: left, y: top, width, height } = this.layoutService.getRangeRect(sheet, row, col, row, col);
+    const right = left + width;
+    const bottom = top + height;
+    // Frozen cells are always visible; the others must clear the frozen panes
+    const frozenWidth = this.layoutService.getFrozenWidth(sheet);
+    const frozenHeight = this.layoutService.getFrozenHeight(sheet);
+    const gutter = this.layoutService.getGutterSize(sheet);
+    const dataWidth = container.clientWidth - gutter.width;
+    const dataHeight = container.clientHeight - gutter.height;
+    const scroll = this.getGridScroll(sheet);
+    const content = this.getContentSize(sheet);
+
+    if (col >= (sheet.frozenColumns ?? 0)) {
+      let x: number | undefined;
+      if (left < scroll.x + frozenWidth) {
+        x = left - frozenWidth;
+      } else if (right > scroll.x + dataWidth) {
+        x = right - dataWidth;
+      }
+      if (x !== undefined) {
+        container.scrollLeft = this.layoutService.toContainerScroll(x, content.width, container.clientWidth);
+      }
+    }
+    if (row >= (sheet.frozenRows ?? 0)) {
+      let y: number | undefined;
+      if (top < scroll.y + frozenHeight) {
+        y = top - frozenHeight;
+      } else if (bottom > scroll.y + dataHeight) {
+        y = bottom - dataHeight;
+      }
+      if (y !== undefined) {
+        container.scrollTop = this.layoutService.toContainerScroll(y, content.height, container.clientHeight);
+      }
+    }
+  }
+
   public getLastHitArea(x: number, y: number): ButtonHitArea | undefined {
     return this.buttonHitAreas.find(area =>
       x >= area.x &&
@@ -1,6 +1,8 @@
-import { Injectable } from '@angular/core';
-import { Cell, Sheet } from '../models/sheet.model';
+import { Injectable, inject } from '@angular/core';
+import { Cell, Sheet, StructureChange } from '../models/sheet.model';
 import { BehaviorSubject, Observable } from 'rxjs';
+import { LayoutService } from './layout.service';
+import { adjustRangeForStructureChange, getMergeAt, normalizeRange } from '../utils/sheet.utils';
 
 // --- [RESIZE LOGIC ADDED] ---
 // Keep track of whether we're resizing columns, rows, or doing something else
@@ -9,7 +11,10 @@ export enum MouseMode {
   SELECTING_CELLS = 'SELECTING_CELLS',
   RESIZING_COLUMN = 'RESIZING_COLUMN',
   RESIZING_ROW = 'RESIZING_ROW',
-  DRAG_FILL = 'DRAG_FILL'  // New mode
+  DRAG_FILL = 'DRAG_FILL',  // New mode
+  // Dragging across column letters / row numbers in the header gutter
+  SELECTING_COLUMNS = 'SELECTING_COLUMNS',
+  SELECTING_ROWS = 'SELECTING_ROWS'
 }
 
 // Optional structure to store info about the active resize
@@ -20,9 +25,14 @@ export interface ResizeState {
   startPointerPos?: number;    // X or Y position where the drag started
 }
 
+// What a selection covers: a block of cells, whole rows, whole columns or the whole sheet
+export type SelectionType = 'cells' | 'rows' | 'columns' | 'all';
+
 export interface HighlightState {
   start: { row: number; col: number };
   end: { row: number; col: number };
+  // 'cells' when missing. Full rows/columns still have concrete start/end coordinates.
+  type?: SelectionType;
 }
 
 export interface InputState {
@@ -32,6 +42,8 @@ export interface InputState {
   height: number;
   value: string;
   disabled: boolean;
+  // The cell refused the text on commit; the editor stays open until it is changed
+  invalid?: boolean;
 }
 
 export interface DragFillState {
@@ -43,6 +55,8 @@ export interface DragFillState {
 
 @Injectable()
 export class StateService {
+  private layoutService = inject(LayoutService);
+
   // Default dimensions
   readonly defaultCellHeight = 20;
   readonly defaultCellWidth = 50;
@@ -56,7 +70,11 @@ export class StateService {
     end: { row: 0, col: 0 }
   });
 
+  // Earlier ranges of a multiple (Ctrl+click) selection; `selectionState` holds the active, latest one
+  private additionalSelections: HighlightState[] = [];
+
   // Copy state
+  private additionalCopyHighlights: HighlightState[] = [];
   private copyHighlightState = new BehaviorSubject<HighlightState>({
     start: { row: -1, col: -1 },
     end: { row: 0, col: 0 }
@@ -75,8 +93,14 @@ export class StateService {
     disabled: true
   });
 
+  // Incremented whenever the input is enabled for editing
+  editSession = 0;
+
   // Scroll state
   private scrollState = new BehaviorSubject<{ x: number; y: number }>({ x: 0, y: 0 });
+  // Grid scroll minus the container's own scroll offsets; only non-zero on grids
+  // too big to scroll natively, where the spacer is scaled
+  private scrollOffset = { x: 0, y: 0 };
 
   // Marching ants state
   private marchingAntsState = new BehaviorSubject<boolean>(false);
@@ -90,6 +114,9 @@ export class StateService {
     position: { x: 0, y: 0 }
   });
 
+  // Go to box (Ctrl+G / F5)
+  private goToState = new BehaviorSubject<boolean>(false);
+
   private dragFillState = new BehaviorSubject<DragFillState>({
     isDragHandleHovered: false,
     isDragging: false
@@ -158,6 +185,14 @@ export class StateService {
     });
   }
 
+  get goToVisible(): boolean {
+    return this.goToState.value;
+  }
+
+  setGoToVisible(visible: boolean) {
+    this.goToState.next(visible);
+  }
+
   // Current value getters
   get selection(): HighlightState {
     return this.selectionState.value;
@@ -168,6 +203,16 @@ export class StateService {
     return this.copyHighlightState.value;
   }
 
+  // Every range of the selection, the active one last
+  get selections(): HighlightState[] {
+    return [...this.additionalSelections, this.selection];
+  }
+
+  // Every copied range, the last one last
+  get copyHighlights(): HighlightState[] {
+    return [...this.additionalCopyHighlights, this.copyHighlight];
+  }
+
   get activeCell(): Cell | null {
     return this.activeCellState.value;
   }
@@ -208,13 +253,63 @@ export class StateService {
 
   // State update methods
   updateSelection(selection: Partial<HighlightState>) {
+    // Moving the start begins a new selection, which is a cell selection unless told otherwise;
+    // moving only the end extends the current one
+    const type = selection.type ?? (selection.start ? 'cells' : this.selectionState.value.type);
+    if (selection.start) {
+      this.additionalSelections = [];
+    }
     this.selectionState.next({
       ...this.selectionState.value,
-      ...selection
+      ...selection,
+      type
     });
   }
 
+  /**
+   * Moves the corners of the active range without starting a new selection:
+   * its type and the other ranges of a multiple selection stay.
+   */
+  resizeSelection(start: { row: number; col: number }, end: { row: number; col: number }) {
+    this.selectionState.next({ ...this.selectionState.value, start, end });
+  }
+
+  /**
+   * Keeps the current selection and adds another range, which becomes the active one.
+   */
+  addSelection(selection: HighlightState) {
+    this.additionalSelections = [...this.additionalSelections, this.selection];
+    this.selectionState.next({ ...selection, type: selection.type ?? 'cells' });
+  }
+
+  /**
+   * Keeps the selection on the same cells after rows/columns are inserted or
+   * deleted. A range whose cells were all deleted shrinks to the row/column
+   * that took their place.
+   */
+  applyStructureChange(change: StructureChange, sheet: Sheet) {
+    const key = change.axis === 'row' ? 'row' : 'col';
+    const last = (change.axis === 'row' ? sheet.rows.length : sheet.columns.length) - 1;
+    const adjust = (selection: HighlightState): HighlightState => {
+      if (selection.start.row < 0) return selection;
+      const range = adjustRangeForStructureChange(selection, change);
+      if (range) return { ...range, type: selection.type };
+      const { start, end } = normalizeRange(selection);
+      const at = Math.min(change.index, last);
+      return { start: { ...start, [key]: at }, end: { ...end, [key]: at }, type: selection.type };
+    };
+
+    this.additionalSelections = this.additionalSelections.map(adjust);
+    this.selectionState.next(adjust(this.selection));
+  }
+
+  setCopyHighlights(copyHighlights: HighlightState[]) {
+    this.updateCopyHighlight(copyHighlights[copyHighlights.length - 1]);
+    this.additionalCopyHighlights = copyHighlights.slice(0, -1);
+  }
+
   updateCopyHighlight(copyHighlight: Partial<HighlightState>) {
+    this.additionalCopyHighlights = [];
     this.copyHighlightState.next({
       ...this.copyHighlightState.value,
       ...copyHighlight
@@ -226,13 +321,20 @@ export class StateService {
   }
 
   updateInputState(state: Partial<InputState>) {
+    // Each time the editor opens a new edit session starts (keystrokes within it form one undo step)
+    if (state.disabled === false && this.inputState.value.disabled) {
+      this.editSession++;
+      state = { invalid: false, ...state };
+    }
     this.inputState.next({
       ...this.inputState.value,
       ...state
     });
   }
 
-  updateScrollPosition(x: number, y: number) {
+  // Grid-space scroll position, and how far the container's scroll offsets lag behind it
+  updateScrollPosition(x: number, y: number, offset = { x: 0, y: 0 }) {
+    this.scrollOffset = offset;
     this.scrollState.next({ x, y });
   }
 
@@ -244,31 +346,30 @@ export class StateService {
   positionInputAt(row: number, col: number, sheet: Sheet) {
     if (!sheet) return;
 
-    // Calculate the left & top positions in canvas-space
-    const xOffset =
-      this.accumulatedWidthUntil(col, sheet.columns);
-    const yOffset =
-      this.accumulatedHeightUntil(row, sheet.rows);
+    // Over a merged area the input covers all of it
+    const { start, end } = getMergeAt(sheet, row, col) ?? { start: { row, col }, end: { row, col } };
+    const rect = this.layoutService.getRangeRect(sheet, start.row, start.col, end.row, end.col);
+
+    // Calculate the left & top positions in grid-space (the input scrolls with the grid).
+    // Cells in frozen panes stay put, so their input is moved along by the scroll position.
+    const scroll = this.scrollPosition;
+    const gutter = this.layoutService.getGutterSize(sheet);
+    // The input sits in the scrolled content, which trails the grid on a scaled spacer
+    const xOffset = gutter.width + rect.x + (start.col < (sheet.frozenColumns ?? 0) ? scroll.x : 0) - this.scrollOffset.x;
+    const yOffset = gutter.height + rect.y + (start.row < (sheet.frozenRows ?? 0) ? scroll.y : 0) - this.scrollOffset.y;
 
     // Update input state with new position
     this.updateInputState({
-      left: xOffset - this.scrollPosition.x,
-      top: yOffset - this.scrollPosition.y,
-      width: sheet.columns[col].width,
-      height: sheet.rows[row].height
+      left: xOffset,
+      top: yOffset,
+      width: rect.width,
+      height: rect.height
     });
   }
 
-  private accumulatedWidthUntil(colIndex: number, columns: { width: number }[]): number {
-    return columns.slice(0, colIndex).reduce((sum, col) => sum + col.width, 0);
-  }
-
-  private accumulatedHeightUntil(rowIndex: number, rows: { height: number }[]): number {
-    return rows.slice(0, rowIndex).reduce((sum, row) => sum + row.height, 0);
-  }
-
   // Reset states
   reset() {
+    this.additionalSelections = [];
     this.selectionState.next({
       start: { row: -1, col: -1 },
       end: { row: 0, col: 0 }
@@ -283,6 +384,7 @@ export class StateService {
       disabled: true
     });
     this.scrollState.next({ x: 0, y: 0 });
+    this.scrollOffset = { x: 0, y: 0 };
     this.marchingAntsState.next(false);
 
     // --- [RESIZE LOGIC ADDED] ---
@@ -298,7 +400,7 @@ export class StateService {
     return this.dragHandleArea;
   }
 
-  setDragHandleArea(area: { x: number; y: number; width: number; height: number }) {
+  setDragHandleArea(area: { x: number; y: number; width: number; height: number } | null) {
     this.dragHandleArea = area;
   }
 }
@@ -1,43 +1,125 @@
 import { Injectable } from '@angular/core';
-import { Sheet } from '../models/sheet.model';
+import { BehaviorSubject } from 'rxjs';
+import { Range } from '../models/sheet.model';
 
 /**
- * A simple Undo/Redo service that stores snapshots
- * of the Sheet state.
- * 
- * For multi-level Undo, we keep a stack of history snapshots.
- * TODO, REDO
+ * A single undoable edit. Commands capture whatever they need to reverse
+ * themselves, so undo/redo never has to snapshot the whole sheet.
  */
+export interface HistoryCommand {
+  // Human-readable description, e.g. "Paste 3×4 at B2"
+  label: string;
+  // Cells touched by the command, selected again after undo/redo
+  range?: Range;
+  // Consecutive commands with the same key collapse into one entry (e.g. keystrokes of one edit)
+  mergeKey?: string;
+  undo(): void;
+  redo(): void;
+}
+
+// Snapshot of the history for display: undone entries follow the applied ones
+export interface HistoryState {
+  entries: string[];
+  // Number of entries currently applied (0 = back at the start)
+  position: number;
+}
+
+export const DEFAULT_HISTORY_DEPTH = 100;
 
-@Injectable({ providedIn: 'root' })
+/**
+ * Multi-level Undo/Redo built on commands.
+ *
+ * Recording a new command drops everything that could have been redone,
+ * and the oldest entries are discarded once the depth limit is reached.
+ */
+@Injectable()
 export class UndoRedoService {
-  private historyStack: Sheet[] = [];
+  private undoStack: HistoryCommand[] = [];
+  private redoStack: HistoryCommand[] = [];
+  private maxDepth = DEFAULT_HISTORY_DEPTH;
+
+  private historyState = new BehaviorSubject<HistoryState>({ entries: [], position: 0 });
+  public history$ = this.historyState.asObservable();
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
   /**
-   * Capture (push) the current sheet snapshot before mutating it.
-   * We do a deep-ish clone using JSON parse/stringify for simplicity.
+   * Push a command that has already been applied.
    */
-  public captureSheetState(sheet: Sheet): void {
-    const clonedSheet = this.cloneSheet(sheet);
-    this.historyStack.push(clonedSheet);
+  public record(command: HistoryCommand): void {
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last && command.mergeKey && last.mergeKey === command.mergeKey && !this.canRedo) {
+      // Keep undoing to the state before the first merged command
+      this.undoStack[this.undoStack.length - 1] = { ...command, undo: last.undo };
+      this.emitHistory();
+      return;
+    }
+    this.undoStack.push(command);
+    this.redoStack = [];
+    this.trim();
+    this.emitHistory();
   }
 
   /**
-   * Undo the last sheet mutation.
-   * Returns the restored sheet or null if none available.
+   * Undo the last command. Returns it, or null if there is nothing to undo.
    */
-  public undo(): Sheet | null {
-    if (this.historyStack.length === 0) {
-      return null;
-    }
-    const restoredSheet = this.historyStack.pop() as Sheet;
-    return restoredSheet;
+  public undo(): HistoryCommand | null {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+    command.undo();
+    this.redoStack.push(command);
+    this.emitHistory();
+    return command;
   }
 
   /**
-   * Helper to deep-clone a sheet via JSON. 
+   * Re-apply the last undone command. Returns it, or null if there is nothing to redo.
    */
-  private cloneSheet(sheet: Sheet): Sheet {
-    // For large data, we might implement a more optimized clone.
-    return JSON.parse(JSON.stringify(sheet));
+  public redo(): HistoryCommand | null {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+    command.redo();
+    this.undoStack.push(command);
+    this.emitHistory();
+    return command;
+  }
+
+  /**
+   * Undo or redo until `position` entries are applied (see HistoryState).
+   */
+  public jumpTo(position: number): void {
+    while (this.undoStack.length > position && this.undo());
+    while (this.undoStack.length < position && this.redo());
+  }
+
+  public setMaxDepth(depth: number): void {
+    this.maxDepth = Math.max(0, depth);
+    this.trim();
+    this.emitHistory();
+  }
+
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.emitHistory();
+  }
+
+  private emitHistory(): void {
+    this.historyState.next({
+      entries: [...this.undoStack, ...[...this.redoStack].reverse()].map(command => command.label),
+      position: this.undoStack.length
+    });
+  }
+
+  private trim(): void {
+    if (this.undoStack.length > this.maxDepth) {
+      this.undoStack.splice(0, this.undoStack.length - this.maxDepth);
+    }
   }
 }
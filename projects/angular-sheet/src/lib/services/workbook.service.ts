@@ -0,0 +1,229 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Subject } from 'rxjs';
+import { Cell, Sheet, StructureChange } from '../models/sheet.model';
+import { SparseCellStore } from '../models/cell-store.model';
+import { Workbook, WorkbookSheet } from '../models/workbook.model';
+import { adjustFormulaForStructureChange, isSameSheetName, renameSheetInFormula } from '../utils/formula.utils';
+import { getCellStore } from '../utils/sheet.utils';
+import { CellPosition } from './dependency-graph.service';
+
+// Cells of a workbook sheet whose values changed
+export interface WorkbookCellChange {
+  sheet: Sheet;
+  // Left out when anything on the sheet may have changed
+  cells?: CellPosition[];
+}
+
+// Characters Excel does not allow in sheet names
+const INVALID_NAME_CHARACTERS = /[[\]:*?/\\]/;
+
+/**
+ * Shared by the sheets of a `<sheet-workbook>`. Resolves the sheet names used
+ * in formulas, passes value changes on to the sheets that reference them and
+ * keeps those references pointing at the right place when sheets are renamed
+ * or their rows/columns move.
+ */
+@Injectable()
+export class WorkbookService {
+  private workbook = new BehaviorSubject<Workbook | null>(null);
+  // Emits the (mutated) workbook after every change to its sheets or tabs
+  public workbook$ = this.workbook.asObservable();
+
+  private cellChanges = new Subject<WorkbookCellChange>();
+  public cellChanges$ = this.cellChanges.asObservable();
+
+  private formulasChanged = new Subject<void>();
+  // Sheet names or cross-sheet references changed; every sheet recalculates in full
+  public formulasChanged$ = this.formulasChanged.asObservable();
+
+  // Sheets currently passing a change on, so cross-sheet reference cycles end
+  private notifying = new Set<Sheet>();
+
+  setWorkbook(workbook: Workbook) {
+    const active = workbook.activeSheet ?? 0;
+    workbook.activeSheet = Math.min(Math.max(active, 0), Math.max(workbook.sheets.length - 1, 0));
+    this.workbook.next(workbook);
+    this.formulasChanged.next();
+  }
+
+  getWorkbook(): Workbook | null {
+    return this.workbook.value;
+  }
+
+  getSheet(name: string): Sheet | undefined {
+    return this.workbook.value?.sheets.find(entry => isSameSheetName(entry.name, name))?.sheet;
+  }
+
+  getSheetName(sheet: Sheet): string | undefined {
+    return this.workbook.value?.sheets.find(entry => entry.sheet === sheet)?.name;
+  }
+
+  isActive(sheet: Sheet): boolean {
+    const workbook = this.workbook.value;
+    return !!workbook && workbook.sheets[workbook.activeSheet ?? 0]?.sheet === sheet;
+  }
+
+  selectSheet(index: number) {
+    const workbook = this.workbook.value;
+    if (!workbook?.sheets[index] || workbook.activeSheet === index) return;
+    workbook.activeSheet = index;
+    this.workbook.next(workbook);
+  }
+
+  /**
+   * Adds a sheet after the last tab and selects it. Without a sheet an empty
+   * one is created, as large as the active sheet; without a name it becomes "SheetN".
+   */
+  addSheet(name?: string, sheet?: Sheet): WorkbookSheet | null {
+    const workbook = this.workbook.value;
+    if (!workbook) return null;
+    name ??= this.nextSheetName(workbook);
+    if (this.getNameError(workbook, name)) return null;
+
+    const entry: WorkbookSheet = { name, sheet: sheet ?? this.createSheet(workbook.sheets[workbook.activeSheet ?? 0]?.sheet) };
+    workbook.sheets.push(entry);
+    workbook.activeSheet = workbook.sheets.length - 1;
+    this.workbook.next(workbook);
+    // Formulas that referred to the name before it existed now resolve
+    this.formulasChanged.next();
+    return entry;
+  }
+
+  /**
+   * Renames a sheet and rewrites the formulas of every sheet that refer to it.
+   * Returns false if the name is empty, taken or has characters sheet names cannot
+   * (`checkSheetName` tells which).
+   */
+  renameSheet(index: number, name: string): boolean {
+    const workbook = this.workbook.value;
+    const entry = workbook?.sheets[index];
+    if (!workbook || !entry) return false;
+    name = name.trim();
+    if (name === entry.name) return true;
+    if (this.getNameError(workbook, name, entry)) return false;
+
+    const previous = entry.name;
+    entry.name = name;
+    workbook.sheets.forEach(({ sheet }) => getCellStore(sheet).forEach(cell => {
+      if (cell.formula) {
+        cell.formula = renameSheetInFormula(cell.formula, previous, name);
+      }
+    }));
+    this.workbook.next(workbook);
+    this.formulasChanged.next();
+    return true;
+  }
+
+  /**
+   * Why `name` can't be given to the sheet at `index` (or to a new sheet without
+   * one), or null if it can.
+   */
+  checkSheetName(name: string, index?: number): string | null {
+    const workbook = this.workbook.value;
+    if (!workbook) return null;
+    const entry = index === undefined ? undefined : workbook.sheets[index];
+    name = name.trim();
+    return name === entry?.name ? null : this.getNameError(workbook, name, entry);
+  }
+
+  // Moves a tab to another position; the same sheet stays selected
+  moveSheet(from: number, to: number) {
+    const workbook = this.workbook.value;
+    if (!workbook?.sheets[from] || to < 0 || to >= workbook.sheets.length || from === to) return;
+    const active = workbook.sheets[workbook.activeSheet ?? 0];
+    const [entry] = workbook.sheets.splice(from, 1);
+    workbook.sheets.splice(to, 0, entry);
+    workbook.activeSheet = workbook.sheets.indexOf(active);
+    this.workbook.next(workbook);
+  }
+
+  /**
+   * Removes a sheet; formulas referring to it show `#REF!` until a sheet of that
+   * name exists again. The last sheet cannot be deleted.
+   */
+  deleteSheet(index: number): boolean {
+    const workbook = this.workbook.value;
+    if (!workbook?.sheets[index] || workbook.sheets.length === 1) return false;
+    const active = workbook.sheets[workbook.activeSheet ?? 0];
+    workbook.sheets.splice(index, 1);
+    const activeIndex = workbook.sheets.indexOf(active);
+    workbook.activeSheet = activeIndex >= 0 ? activeIndex : Math.min(index, workbook.sheets.length - 1);
+    this.workbook.next(workbook);
+    this.formulasChanged.next();
+    return true;
+  }
+
+  /**
+   * Tells the other sheets that values on `sheet` changed. A change that comes
+   * back around to a sheet still passing one on is dropped, so reference cycles
+   * between sheets stop instead of recalculating forever.
+   */
+  notifyChanged(sheet: Sheet, cells?: CellPosition[]) {
+    if (!this.getSheetName(sheet) || this.notifying.has(sheet)) return;
+    this.notifying.add(sheet);
+    try {
+      this.cellChanges.next({ sheet, cells });
+    } finally {
+      this.notifying.delete(sheet);
+    }
+  }
+
+  /**
+   * Adjusts the references other sheets hold into `sheet` after rows/columns
+   * of it were inserted or deleted. The sheet's own formulas are adjusted by its DataService.
+   * Returns the rewritten formulas as they were before, for `restoreReferences`.
+   */
+  adjustReferences(sheet: Sheet, change: StructureChange): Map<Cell, string> {
+    const previous = new Map<Cell, string>();
+    const name = this.getSheetName(sheet);
+    if (!name) return previous;
+    this.workbook.value!.sheets.forEach(entry => {
+      if (entry.sheet === sheet) return;
+      getCellStore(entry.sheet).forEach(cell => {
+        if (!cell.formula) return;
+        const adjusted = adjustFormulaForStructureChange(cell.formula, change, { local: false, sheet: name });
+        if (adjusted !== cell.formula) {
+          previous.set(cell, cell.formula);
+          cell.formula = adjusted;
+        }
+      });
+    });
+    return previous;
+  }
+
+  /**
+   * Puts back formulas that `adjustReferences` rewrote, when the deletion is undone.
+   * References that became `#REF!` can't be shifted back, so they are restored as they were.
+   */
+  restoreReferences(formulas: Map<Cell, string>) {
+    if (formulas.size === 0) return;
+    formulas.forEach((formula, cell) => cell.formula = formula);
+    this.formulasChanged.next();
+  }
+
+  private getNameError(workbook: Workbook, name: string, except?: WorkbookSheet): string | null {
+    if (!name || INVALID_NAME_CHARACTERS.test(name)) {
+      return `"${name}" is not a valid sheet name`;
+    }
+    if (workbook.sheets.some(entry => entry !== except && isSameSheetName(entry.name, name))) {
+      return `A sheet named "${name}" already exists`;
+    }
+    return null;
+  }
+
+  private nextSheetName(workbook: Workbook): string {
+    let n = workbook.sheets.length + 1;
+    while (workbook.sheets.some(entry => isSameSheetName(entry.name, `Sheet${n}`))) n++;
+    return `Sheet${n}`;
+  }
+
+  // An empty sheet with as many rows and columns as `like`
+  private createSheet(like?: Sheet): Sheet {
+    return {
+      cells: [],
+      store: new SparseCellStore(),
+      columns: Array.from({ length: like?.columns.length ?? 26 }, () => ({ width: 100 })),
+      rows: Array.from({ length: like?.rows.length ?? 100 }, () => ({ height: 20 }))
+    };
+  }
+}
@@ -0,0 +1,563 @@
+import type { Cell } from '../models/sheet.model';
+import { dateToSerial } from './sheet.utils';
+
+// -------------------------------------
+// Types
+// -------------------------------------
+
+export interface FormattedValue {
+  text: string;
+  // Color picked by the format, e.g. `[Red]` in `0;[Red]-0`
+  color?: string;
+}
+
+type FormatToken =
+  | { type: 'literal'; text: string }
+  // Digit placeholder: `0` pads with zeros, `#` shows significant digits only, `?` pads with spaces
+  | { type: 'digit'; char: string }
+  | { type: 'decimal' }
+  | { type: 'percent' }
+  | { type: 'exponent'; sign: '+' | '-' }
+  // `@`: the text of a text value
+  | { type: 'text' }
+  | { type: 'general' }
+  // Date/time code, lower-cased: `yyyy`, `mm`, `n`/`nn` (minutes), `[h]`, `.00`, `am/pm` ...
+  | { type: 'date'; code: string; upper?: boolean };
+
+interface FormatCondition {
+  operator: string;
+  value: number;
+}
+
+interface FormatSection {
+  tokens: FormatToken[];
+  kind: 'number' | 'date' | 'text' | 'general';
+  color?: string;
+  condition?: FormatCondition;
+  // `,` between digit placeholders
+  grouping: boolean;
+  // Number of trailing `,` (each divides by 1000)
+  thousands: number;
+}
+
+const COLORS: Record<string, string> = {
+  black: 'black',
+  blue: 'blue',
+  cyan: 'cyan',
+  green: 'green',
+  magenta: 'magenta',
+  red: 'red',
+  white: 'white',
+  yellow: 'yellow'
+};
+// Excel's [Color1]..[Color8]
+const INDEXED_COLORS = ['black', 'white', 'red', 'lime', 'blue', 'yellow', 'magenta', 'cyan'];
+
+const CONDITION_PATTERN = /^(<=|>=|<>|<|>|=)\s*(-?\d*\.?\d+)$/;
+const DATE_CODES = 'ymdhs';
+const SECONDS_PER_DAY = 86400;
+// Serial 0 is 1899-12-30, as in Excel's 1900 date system
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+
+// -------------------------------------
+// Formatting
+// -------------------------------------
+
+/**
+ * Formats a cell value with an Excel number format such as `#,##0.00`, `0%`,
+ * `"$"#,##0;[Red]-"$"#,##0`, `yyyy-mm-dd` or `[h]:mm`. Up to four `;`-separated
+ * sections format positive numbers, negative numbers, zero and text; `[>100]`-style
+ * conditions pick a section instead. Separators and month/day names follow `locale`.
+ *
+ * Without a format the value is shown as it is; text without a text section is never changed.
+ */
+export function formatValue(value: Cell['value'], format: string | undefined, locale?: string): FormattedValue {
+  if (value == null) return { text: '' };
+  if (!format) return { text: value.toString() };
+  if (typeof value === 'boolean') return { text: value ? 'TRUE' : 'FALSE' };
+
+  const sections = parseFormat(format);
+  if (typeof value === 'string') {
+    const section = sections[3] ?? (sections.length === 1 && sections[0].kind === 'text' ? sections[0] : undefined);
+    return section ? { text: formatText(section, value), color: section.color } : { text: value };
+  }
+
+  let n = value instanceof Date ? dateToSerial(value) : value;
+  if (!Number.isFinite(n)) return { text: String(n) };
+  let picked = pickSection(sections, n);
+  // A negative number that rounds to zero is shown as zero, as Excel shows -0.001 as "0.00"
+  if (picked && n < 0 && roundsToZero(picked.section, n)) {
+    n = 0;
+    picked = pickSection(sections, n);
+  }
+  if (!picked) return { text: formatGeneral(n, locale) };
+  const { section, signed } = picked;
+  const shown = signed ? n : Math.abs(n);
+  let text: string;
+  switch (section.kind) {
+    case 'date':
+      text = formatDate(section, shown, locale);
+      break;
+    case 'general':
+      text = section.tokens.map(token => token.type === 'general' ? formatGeneral(shown, locale) : literalText(token)).join('');
+      break;
+    case 'text':
+      text = formatText(section, formatGeneral(shown, locale));
+      break;
+    default:
+      text = formatNumber(section, shown, locale);
+  }
+  return { text, color: section.color };
+}
+
+// The section a number is shown with, and whether its own sign is shown too
+function pickSection(sections: FormatSection[], n: number): { section: FormatSection; signed: boolean } | undefined {
+  const numeric = sections.slice(0, 3);
+  if (numeric.some(section => section.condition)) {
+    const matched = numeric.find(section => section.condition && testCondition(section.condition, n))
+      ?? numeric.find(section => !section.condition);
+    return matched && { section: matched, signed: true };
+  }
+  if (n < 0 && numeric.length >= 2) return { section: numeric[1], signed: false };
+  if (n === 0 && numeric.length >= 3) return { section: numeric[2], signed: false };
+  // A single section shows negative numbers with a minus sign
+  return { section: numeric[0], signed: true };
+}
+
+// True if the section shows the number as zero, e.g. 0.001 with "0.00"
+function roundsToZero(section: FormatSection, n: number): boolean {
+  const { tokens } = section;
+  if (section.kind !== 'number' || tokens.some(token => token.type === 'exponent')) return false;
+  const percents = tokens.filter(token => token.type === 'percent').length;
+  const decimalIndex = tokens.findIndex(token => token.type === 'decimal');
+  const fractionDigits = decimalIndex >= 0 ? digitIndexes(tokens, decimalIndex, tokens.length).length : 0;
+  return Number(toFixed(Math.abs(n) * 100 ** percents / 1000 ** section.thousands, fractionDigits)) === 0;
+}
+
+function testCondition({ operator, value }: FormatCondition, n: number): boolean {
+  switch (operator) {
+    case '<': return n < value;
+    case '<=': return n <= value;
+    case '>': return n > value;
+    case '>=': return n >= value;
+    case '<>': return n !== value;
+    default: return n === value;
+  }
+}
+
+function formatText(section: FormatSection, text: string): string {
+  return section.tokens.map(token => token.type === 'text' ? text : literalText(token)).join('');
+}
+
+function literalText(token: FormatToken): string {
+  return token.type === 'literal' ? token.text : '';
+}
+
+// Excel's General format: up to 11 significant digits, scientific for very large or small numbers
+function formatGeneral(n: number, locale?: string): string {
+  const abs = Math.abs(n);
+  if (abs !== 0 && (abs >= 1e11 || abs < 1e-9)) {
+    const text = formatNumber(parseFormat('0.#####E+00')[0], abs, locale);
+    // A mantissa without decimals drops its decimal separator: 1E+15, not 1.E+15
+    return (n < 0 ? '-' : '') + text.replace(`${getSeparators(locale).decimal}E`, 'E');
+  }
+  return getNumberFormat(locale, { useGrouping: false, maximumSignificantDigits: 11 }).format(n);
+}
+
+function formatNumber(section: FormatSection, value: number, locale?: string): string {
+  const { decimal, group } = getSeparators(locale);
+  const { tokens } = section;
+  const percents = tokens.filter(token => token.type === 'percent').length;
+  let v = Math.abs(value) * 100 ** percents / 1000 ** section.thousands;
+
+  // Digit placeholders of the integer part, the fraction and the exponent
+  const decimalIndex = tokens.findIndex(token => token.type === 'decimal');
+  const exponentIndex = tokens.findIndex(token => token.type === 'exponent');
+  const mantissaEnd = exponentIndex >= 0 ? exponentIndex : tokens.length;
+  const integerEnd = decimalIndex >= 0 && decimalIndex < mantissaEnd ? decimalIndex : mantissaEnd;
+  const integerDigits = digitIndexes(tokens, 0, integerEnd);
+  const fractionDigits = digitIndexes(tokens, integerEnd, mantissaEnd);
+  const exponentDigits = exponentIndex >= 0 ? digitIndexes(tokens, exponentIndex, tokens.length) : [];
+
+  let exponent = 0;
+  if (exponentIndex >= 0 && v !== 0) {
+    const width = Math.max(integerDigits.length, 1);
+    // `##0.0E+0` is engineering notation: exponents are multiples of the integer width
+    const engineering = width > 1 && integerDigits.some(index => (tokens[index] as { char: string }).char === '#');
+    const scale = (magnitude: number) => engineering ? Math.floor(magnitude / width) * width : magnitude - (width - 1);
+    exponent = scale(Math.floor(Math.log10(v)));
+    // Rounding can carry the mantissa over into another digit
+    if (Number(toFixed(v / 10 ** exponent, fractionDigits.length)) >= 10 ** width) {
+      exponent = scale(Math.floor(Math.log10(v)) + 1);
+    }
+    v /= 10 ** exponent;
+  }
+
+  const [integerText, fractionText = ''] = toFixed(v, fractionDigits.length).split('.');
+  const output: string[] = tokens.map(token => {
+    switch (token.type) {
+      case 'literal': return token.text;
+      case 'decimal': return decimal;
+      case 'percent': return '%';
+      case 'exponent': return 'E' + (exponent < 0 ? '-' : token.sign === '+' ? '+' : '');
+      default: return '';
+    }
+  });
+
+  // Integer digits fill the placeholders from the right; any left over go in front of the first
+  let digits = integerText === '0' ? '' : integerText;
+  for (let i = integerDigits.length - 1; i >= 0; i--) {
+    const char = (tokens[integerDigits[i]] as { char: string }).char;
+    if (digits) {
+      output[integerDigits[i]] = digits[digits.length - 1];
+      digits = digits.slice(0, -1);
+    } else {
+      output[integerDigits[i]] = char === '0' ? '0' : char === '?' ? ' ' : '';
+    }
+  }
+  const integerStart = integerDigits[0] ?? (decimalIndex >= 0 ? decimalIndex : -1);
+  if (integerStart >= 0) {
+    output[integerStart] = digits + output[integerStart];
+  }
+  if (section.grouping && integerDigits.length > 0) {
+    const whole = integerDigits.map(index => output[index]).join('');
+    integerDigits.forEach(index => output[index] = '');
+    output[integerDigits[0]] = groupDigits(whole, group);
+  }
+
+  // Fraction digits fill from the left; `#` drops trailing zeros and `?` turns them into spaces
+  let trimming = true;
+  for (let i = fractionDigits.length - 1; i >= 0; i--) {
+    const char = (tokens[fractionDigits[i]] as { char: string }).char;
+    const digit = fractionText[i] ?? '0';
+    if (trimming && digit === '0' && char !== '0') {
+      output[fractionDigits[i]] = char === '?' ? ' ' : '';
+    } else {
+      trimming = false;
+      output[fractionDigits[i]] = digit;
+    }
+  }
+
+  if (exponentIndex >= 0) {
+    const minimum = exponentDigits.filter(index => (tokens[index] as { char: string }).char === '0').length;
+    exponentDigits.forEach(index => output[index] = '');
+    output[exponentIndex] += String(Math.abs(exponent)).padStart(minimum, '0');
+  }
+
+  const text = output.join('');
+  return value < 0 ? `-${text}` : text;
+}
+
+function digitIndexes(tokens: FormatToken[], from: number, to: number): number[] {
+  const indexes: number[] = [];
+  for (let i = from; i < to; i++) {
+    if (tokens[i].type === 'digit') indexes.push(i);
+  }
+  return indexes;
+}
+
+function groupDigits(digits: string, separator: string): string {
+  return digits.replace(/\B(?=(\d{3})+(?!\d))/g, separator);
+}
+
+// Rounds half away from zero, without the binary representation turning 1.005 into 1.00
+function toFixed(v: number, decimals: number): string {
+  return (v + v * Number.EPSILON).toFixed(decimals);
+}
+
+function formatDate(section: FormatSection, serial: number, locale?: string): string {
+  // Dates before the epoch can't be shown, just as in Excel
+  if (serial < 0) return '#'.repeat(8);
+  const { decimal } = getSeparators(locale);
+  const names = getDateNames(locale);
+  const { tokens } = section;
+  const fractionCode = tokens.find(token => token.type === 'date' && token.code.startsWith('.'));
+  const fractionDigits = fractionCode?.type === 'date' ? fractionCode.code.length - 1 : 0;
+  const twelveHour = tokens.some(token => token.type === 'date' && (token.code === 'am/pm' || token.code === 'a/p'));
+
+  // Rounded to the shown precision, so 23:59:59.6 becomes the next day rather than 23:59:60
+  const precision = 10 ** fractionDigits;
+  const totalSeconds = Math.round(serial * SECONDS_PER_DAY * precision) / precision;
+  const days = Math.floor(totalSeconds / SECONDS_PER_DAY);
+  const seconds = totalSeconds - days * SECONDS_PER_DAY;
+  const date = new Date(SERIAL_EPOCH + days * SECONDS_PER_DAY * 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor(seconds % 3600 / 60);
+  const pad = (n: number, code: string) => code.length > 1 ? String(n).padStart(2, '0') : String(n);
+
+  return tokens.map(token => {
+    if (token.type !== 'date') return literalText(token);
+    const { code } = token;
+    switch (code[0]) {
+      case 'y':
+        return code.length > 2 ? String(date.getUTCFullYear()) : String(date.getUTCFullYear() % 100).padStart(2, '0');
+      case 'm': {
+        const month = date.getUTCMonth();
+        if (code.length === 5) return names.months[month][0];
+        if (code.length === 4) return names.months[month];
+        return code.length === 3 ? names.shortMonths[month] : pad(month + 1, code);
+      }
+      case 'd': {
+        if (code.length >= 4) return names.days[date.getUTCDay()];
+        return code.length === 3 ? names.shortDays[date.getUTCDay()] : pad(date.getUTCDate(), code);
+      }
+      case 'h':
+        return pad(twelveHour ? hours % 12 || 12 : hours, code);
+      case 'n':
+        return pad(minutes, code);
+      case 's':
+        return pad(Math.floor(seconds % 60), code);
+      case '.':
+        return decimal + String(Math.round(seconds % 1 * precision) % precision).padStart(fractionDigits, '0');
+      case '[': {
+        // Elapsed time: [h], [m] or [s] count up past a day
+        const unit = code[1] === 'h' ? 3600 : code[1] === 'm' ? 60 : 1;
+        return String(Math.floor(totalSeconds / unit)).padStart(code.length - 2, '0');
+      }
+      default: {
+        const afternoon = hours >= 12;
+        const text = code === 'a/p' ? (afternoon ? 'p' : 'a') : (afternoon ? 'pm' : 'am');
+        return token.upper ? text.toUpperCase() : text;
+      }
+    }
+  }).join('');
+}
+
+// -------------------------------------
+// Parsing
+// -------------------------------------
+
+const parsedFormats = new Map<string, FormatSection[]>();
+
+function parseFormat(format: string): FormatSection[] {
+  let sections = parsedFormats.get(format);
+  if (!sections) {
+    sections = splitSections(format).slice(0, 4).map(parseSection);
+    parsedFormats.set(format, sections);
+  }
+  return sections;
+}
+
+// Splits at `;` outside quotes, brackets and escapes
+function splitSections(format: string): string[] {
+  const sections: string[] = [];
+  let current = '';
+  for (let i = 0; i < format.length; i++) {
+    const char = format[i];
+    if (char === ';') {
+      sections.push(current);
+      current = '';
+      continue;
+    }
+    let end = i;
+    if (char === '"') {
+      end = format.indexOf('"', i + 1);
+    } else if (char === '[') {
+      end = format.indexOf(']', i + 1);
+    } else if (char === '\\' || char === '_' || char === '*') {
+      end = i + 1;
+    }
+    if (end < 0) end = format.length - 1;
+    current += format.slice(i, end + 1);
+    i = end;
+  }
+  sections.push(current);
+  return sections;
+}
+
+function parseSection(text: string): FormatSection {
+  const section: FormatSection = { tokens: [], kind: 'number', grouping: false, thousands: 0 };
+  const tokens = section.tokens;
+  const literal = (value: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === 'literal') {
+      last.text += value;
+    } else {
+      tokens.push({ type: 'literal', text: value });
+    }
+  };
+  const isDigit = (char: string | undefined) => char === '0' || char === '#' || char === '?';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const lower = char.toLowerCase();
+    const rest = text.slice(i).toLowerCase();
+
+    if (char === '"') {
+      const end = text.indexOf('"', i + 1);
+      literal(text.slice(i + 1, end < 0 ? text.length : end));
+      i = end < 0 ? text.length : end;
+    } else if (char === '\\') {
+      literal(text[i + 1] ?? '');
+      i++;
+    } else if (char === '_') {
+      // Space as wide as the next character, e.g. `_)` to line up with `(1)`
+      literal(' ');
+      i++;
+    } else if (char === '*') {
+      // Repeat-to-fill; the cell isn't filled, the character is dropped
+      i++;
+    } else if (char === '[') {
+      const end = text.indexOf(']', i + 1);
+      const content = text.slice(i + 1, end < 0 ? text.length : end);
+      parseBracket(section, content, literal);
+      i = end < 0 ? text.length : end;
+    } else if (rest.startsWith('general')) {
+      tokens.push({ type: 'general' });
+      i += 6;
+    } else if (rest.startsWith('am/pm')) {
+      tokens.push({ type: 'date', code: 'am/pm', upper: char === 'A' });
+      i += 4;
+    } else if (rest.startsWith('a/p')) {
+      tokens.push({ type: 'date', code: 'a/p', upper: char === 'A' });
+      i += 2;
+    } else if (DATE_CODES.includes(lower)) {
+      let end = i;
+      while (text[end + 1]?.toLowerCase() === lower) end++;
+      tokens.push({ type: 'date', code: lower.repeat(end - i + 1) });
+      i = end;
+    } else if (char === '.' && text[i + 1] === '0' && tokens.some(token => token.type === 'date')) {
+      // Fractional seconds, e.g. ss.00
+      let end = i;
+      while (text[end + 1] === '0') end++;
+      tokens.push({ type: 'date', code: text.slice(i, end + 1) });
+      i = end;
+    } else if (isDigit(char)) {
+      tokens.push({ type: 'digit', char });
+    } else if (char === '.') {
+      tokens.push({ type: 'decimal' });
+    } else if (char === ',' && tokens[tokens.length - 1]?.type === 'digit') {
+      // Between placeholders it groups thousands; after the last one it scales by 1000
+      if (isDigit(text[i + 1])) {
+        section.grouping = true;
+      } else {
+        section.thousands++;
+      }
+    } else if (char === '%') {
+      tokens.push({ type: 'percent' });
+    } else if ((char === 'E' || char === 'e') && (text[i + 1] === '+' || text[i + 1] === '-')) {
+      tokens.push({ type: 'exponent', sign: text[i + 1] as '+' | '-' });
+      i++;
+    } else if (char === '@') {
+      tokens.push({ type: 'text' });
+    } else {
+      literal(char);
+    }
+  }
+
+  markMinutes(tokens);
+  if (tokens.some(token => token.type === 'date')) {
+    section.kind = 'date';
+  } else if (tokens.some(token => token.type === 'general')) {
+    section.kind = 'general';
+  } else if (tokens.some(token => token.type === 'text') && !tokens.some(token => token.type === 'digit')) {
+    section.kind = 'text';
+  }
+  return section;
+}
+
+// Handles `[Red]`, `[Color3]`, `[>100]`, `[h]`/`[mm]`/`[ss]` and `[$€-407]`
+function parseBracket(section: FormatSection, content: string, literal: (text: string) => void) {
+  const lower = content.toLowerCase();
+  const condition = CONDITION_PATTERN.exec(content);
+  const indexed = /^color\s*(\d+)$/.exec(lower);
+  if (COLORS[lower]) {
+    section.color = COLORS[lower];
+  } else if (indexed) {
+    section.color = INDEXED_COLORS[Number(indexed[1]) - 1] ?? section.color;
+  } else if (condition) {
+    section.condition = { operator: condition[1], value: Number(condition[2]) };
+  } else if (/^(h+|m+|s+)$/.test(lower)) {
+    section.tokens.push({ type: 'date', code: `[${lower}]` });
+  } else if (content.startsWith('$')) {
+    // Currency symbol with an optional locale id after the dash
+    literal(content.slice(1).split('-')[0]);
+  }
+}
+
+// `m` means minutes right after hours or right before seconds, months otherwise
+function markMinutes(tokens: FormatToken[]) {
+  const dates = tokens.filter((token): token is Extract<FormatToken, { type: 'date' }> => token.type === 'date');
+  dates.forEach((token, i) => {
+    if (token.code !== 'm' && token.code !== 'mm') return;
+    const previous = dates[i - 1]?.code;
+    const next = dates[i + 1]?.code;
+    if (previous?.startsWith('h') || previous?.startsWith('[h') || next?.startsWith('s')) {
+      token.code = token.code.replace(/m/g, 'n');
+    }
+  });
+}
+
+// -------------------------------------
+// Locale data
+// -------------------------------------
+
+export interface DateNames {
+  months: string[];
+  shortMonths: string[];
+  days: string[];
+  shortDays: string[];
+}
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const separators = new Map<string, { decimal: string; group: string }>();
+const dateNames = new Map<string, DateNames>();
+
+function getNumberFormat(locale: string | undefined, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = `${locale ?? ''}|${JSON.stringify(options)}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    try {
+      format = new Intl.NumberFormat(locale, options);
+    } catch {
+      // Unknown locale tags fall back to the browser's locale
+      format = new Intl.NumberFormat(undefined, options);
+    }
+    numberFormats.set(key, format);
+  }
+  return format;
+}
+
+/**
+ * Decimal and thousands separators of a locale ("." and "," for en-US,
+ * "," and "." for de-DE). Without a locale the browser's is used.
+ */
+export function getSeparators(locale?: string): { decimal: string; group: string } {
+  const key = locale ?? '';
+  let result = separators.get(key);
+  if (!result) {
+    const parts = getNumberFormat(locale, {}).formatToParts(12345.6);
+    result = {
+      decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+      group: parts.find(part => part.type === 'group')?.value ?? ','
+    };
+    separators.set(key, result);
+  }
+  return result;
+}
+
+// Month and weekday names of a locale, long and short, January and Sunday first
+export function getDateNames(locale?: string): DateNames {
+  const key = locale ?? '';
+  let names = dateNames.get(key);
+  if (!names) {
+    const format = (options: Intl.DateTimeFormatOptions, date: number) => {
+      try {
+        return new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' }).format(date);
+      } catch {
+        return new Intl.DateTimeFormat(undefined, { ...options, timeZone: 'UTC' }).format(date);
+      }
+    };
+    const months = Array.from({ length: 12 }, (_, i) => Date.UTC(2000, i, 1));
+    // 2000-01-02 was a Sunday
+    const days = Array.from({ length: 7 }, (_, i) => Date.UTC(2000, 0, 2 + i));
+    names = {
+      months: months.map(date => format({ month: 'long' }, date)),
+      shortMonths: months.map(date => format({ month: 'short' }, date)),
+      days: days.map(date => format({ weekday: 'long' }, date)),
+      shortDays: days.map(date => format({ weekday: 'short' }, date))
+    };
+    dateNames.set(key, names);
+  }
+  return names;
+}
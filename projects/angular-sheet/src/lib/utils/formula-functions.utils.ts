@@ -0,0 +1,444 @@
+import {
+  FormulaArgument,
+  FormulaError,
+  FormulaFunction,
+  FormulaRangeValue,
+  FormulaValue
+} from '../models/formula.model';
+import { dateToSerial, serialToDate } from './sheet.utils';
+
+// -------------------------------------
+// Value coercion
+// -------------------------------------
+
+export function isNumericText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value));
+}
+
+export function isEmpty(value: FormulaValue): boolean {
+  return value === null || value === '';
+}
+
+export function toNumber(value: FormulaValue): number | FormulaError {
+  if (value instanceof FormulaError) return value;
+  if (value === null || value === '') return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return dateToSerial(value);
+  const n = Number(value.trim());
+  return Number.isNaN(n) ? new FormulaError('#VALUE!') : n;
+}
+
+export function toText(value: FormulaValue): string {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (value instanceof Date) {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  return value.toString();
+}
+
+export function toBoolean(value: FormulaValue): boolean | FormulaError {
+  if (value instanceof FormulaError) return value;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const upper = value.trim().toUpperCase();
+    if (upper === 'TRUE') return true;
+    if (upper === 'FALSE' || upper === '') return false;
+  }
+  const n = toNumber(value);
+  return n instanceof FormulaError ? n : n !== 0;
+}
+
+export function toDate(value: FormulaValue): Date | FormulaError {
+  if (value instanceof FormulaError) return value;
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' && !isNumericText(value)) {
+    const parsed = new Date(value);
+    return Number.isNaN(parsed.getTime()) ? new FormulaError('#VALUE!') : parsed;
+  }
+  const serial = toNumber(value);
+  return serial instanceof FormulaError ? serial : serialToDate(serial);
+}
+
+/**
+ * Ranges used where a single value is expected collapse to their only cell.
+ */
+export function toScalar(value: FormulaArgument): FormulaValue {
+  if (!Array.isArray(value)) return value;
+  if (value.length === 1 && value[0].length === 1) return value[0][0];
+  return new FormulaError('#VALUE!');
+}
+
+export function toRange(value: FormulaArgument): FormulaRangeValue {
+  return Array.isArray(value) ? value : [[value]];
+}
+
+export function flatten(args: FormulaArgument[]): FormulaValue[] {
+  return args.flatMap(arg => Array.isArray(arg) ? arg.flat() : [arg]);
+}
+
+// Spreadsheet ordering: numbers < text < booleans, text compared case-insensitively
+export function compareValues(left: FormulaValue, right: FormulaValue): number {
+  const rank = (v: FormulaValue) =>
+    typeof v === 'boolean' ? 2 : typeof v === 'string' && v !== '' && !isNumericText(v) ? 1 : 0;
+  const leftRank = rank(left);
+  const rightRank = rank(right);
+  if (leftRank !== rightRank) return leftRank - rightRank;
+
+  if (leftRank === 1) {
+    return toText(left).toLowerCase().localeCompare(toText(right).toLowerCase());
+  }
+  const a = toNumber(left) as number;
+  const b = toNumber(right) as number;
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+/**
+ * Collects the numbers in the arguments. Text in ranges is skipped unless it
+ * is numeric (typed input is stored as text); direct arguments must be numbers.
+ */
+function collectNumbers(args: FormulaArgument[]): number[] | FormulaError {
+  const numbers: number[] = [];
+  for (const arg of args) {
+    if (arg instanceof FormulaError) return arg;
+    if (Array.isArray(arg)) {
+      for (const value of arg.flat()) {
+        if (value instanceof FormulaError) return value;
+        if (typeof value === 'number') {
+          numbers.push(value);
+        } else if (value instanceof Date) {
+          numbers.push(dateToSerial(value));
+        } else if (isNumericText(value)) {
+          numbers.push(Number(value));
+        }
+      }
+    } else {
+      const n = toNumber(arg);
+      if (n instanceof FormulaError) return n;
+      numbers.push(n);
+    }
+  }
+  return numbers;
+}
+
+function firstError(values: FormulaValue[]): FormulaError | undefined {
+  return values.find((v): v is FormulaError => v instanceof FormulaError);
+}
+
+function wildcardToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '~' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Tests a value against a SUMIF/COUNTIF criteria such as `">5"`, `"<>x"` or `"ab*"`.
+ */
+export function matchesCriteria(value: FormulaValue, criteria: FormulaValue): boolean {
+  if (value instanceof FormulaError) return false;
+  if (typeof criteria !== 'string') {
+    return compareValues(value, criteria) === 0 && !isEmpty(value);
+  }
+
+  const match = /^(<=|>=|<>|<|>|=)?(.*)$/.exec(criteria)!;
+  const operator = match[1] ?? '=';
+  const operand = match[2];
+
+  if (!isNumericText(operand) && (operator === '=' || operator === '<>')) {
+    const matched = operand === ''
+      ? isEmpty(value)
+      : wildcardToRegExp(operand).test(toText(value));
+    return operator === '=' ? matched : !matched;
+  }
+
+  // Numeric comparisons only match numeric cells
+  if (isNumericText(operand) && !(typeof value === 'number' || isNumericText(value))) {
+    return operator === '<>';
+  }
+  const comparison = compareValues(value, isNumericText(operand) ? Number(operand) : operand);
+  switch (operator) {
+    case '<': return comparison < 0;
+    case '>': return comparison > 0;
+    case '<=': return comparison <= 0;
+    case '>=': return comparison >= 0;
+    case '<>': return comparison !== 0;
+    default: return comparison === 0;
+  }
+}
+
+/**
+ * Finds the position of `lookup` in `values`.
+ * matchType 0 = exact (wildcards allowed for text), 1 = largest value <= lookup
+ * (ascending data), -1 = smallest value >= lookup (descending data).
+ */
+function findMatch(lookup: FormulaValue, values: FormulaValue[], matchType: number): number {
+  if (matchType === 0) {
+    const pattern = typeof lookup === 'string' && /[*?~]/.test(lookup) ? wildcardToRegExp(lookup) : null;
+    return values.findIndex(value => pattern
+      ? pattern.test(toText(value))
+      : !isEmpty(value) && compareValues(value, lookup) === 0);
+  }
+
+  let found = -1;
+  for (let i = 0; i < values.length; i++) {
+    if (isEmpty(values[i])) continue;
+    const comparison = compareValues(values[i], lookup);
+    if (comparison === 0) return i;
+    if ((matchType > 0 && comparison < 0) || (matchType < 0 && comparison > 0)) {
+      found = i;
+    } else {
+      break;
+    }
+  }
+  return found;
+}
+
+function roundHalfAwayFromZero(n: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.sign(n) * Math.round((Math.abs(n) + Number.EPSILON) * factor) / factor;
+}
+
+function textFunction(fn: (text: string, args: FormulaValue[]) => FormulaValue): FormulaFunction {
+  return args => {
+    const values = args.map(toScalar);
+    const error = firstError(values);
+    if (error) return error;
+    return fn(toText(values[0] ?? ''), values.slice(1));
+  };
+}
+
+function datePart(part: (date: Date) => number): FormulaFunction {
+  return ([arg]) => {
+    const date = toDate(toScalar(arg ?? null));
+    return date instanceof FormulaError ? date : part(date);
+  };
+}
+
+// -------------------------------------
+// Built-in function library
+// -------------------------------------
+
+export const BUILTIN_FUNCTIONS: Record<string, FormulaFunction> = {
+  // Math & aggregation
+  SUM: args => {
+    const numbers = collectNumbers(args);
+    return numbers instanceof FormulaError ? numbers : numbers.reduce((sum, n) => sum + n, 0);
+  },
+  AVERAGE: args => {
+    const numbers = collectNumbers(args);
+    if (numbers instanceof FormulaError) return numbers;
+    return numbers.length ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length : new FormulaError('#DIV/0!');
+  },
+  MIN: args => {
+    const numbers = collectNumbers(args);
+    return numbers instanceof FormulaError ? numbers : numbers.length ? Math.min(...numbers) : 0;
+  },
+  MAX: args => {
+    const numbers = collectNumbers(args);
+    return numbers instanceof FormulaError ? numbers : numbers.length ? Math.max(...numbers) : 0;
+  },
+  COUNT: args => flatten(args).filter(v => typeof v === 'number' || v instanceof Date || isNumericText(v)).length,
+  COUNTA: args => flatten(args).filter(v => !isEmpty(v)).length,
+  ROUND: ([number, digits]) => {
+    const n = toNumber(toScalar(number ?? null));
+    const d = toNumber(toScalar(digits ?? 0));
+    if (n instanceof FormulaError) return n;
+    if (d instanceof FormulaError) return d;
+    return roundHalfAwayFromZero(n, Math.trunc(d));
+  },
+  ABS: ([number]) => {
+    const n = toNumber(toScalar(number ?? null));
+    return n instanceof FormulaError ? n : Math.abs(n);
+  },
+
+  // Logic
+  IF: ([condition, whenTrue, whenFalse]) => {
+    const test = toBoolean(toScalar(condition ?? false));
+    if (test instanceof FormulaError) return test;
+    return test ? whenTrue ?? true : whenFalse ?? false;
+  },
+  IFERROR: ([value, fallback]) => {
+    const scalar = toScalar(value ?? null);
+    return scalar instanceof FormulaError ? fallback ?? '' : value;
+  },
+  AND: args => {
+    const values = flatten(args).filter(v => !isEmpty(v) && !(typeof v === 'string' && !/^(TRUE|FALSE)$/i.test(v)));
+    let result = true;
+    for (const value of values) {
+      const b = toBoolean(value);
+      if (b instanceof FormulaError) return b;
+      result = result && b;
+    }
+    return values.length ? result : new FormulaError('#VALUE!');
+  },
+  OR: args => {
+    const values = flatten(args).filter(v => !isEmpty(v) && !(typeof v === 'string' && !/^(TRUE|FALSE)$/i.test(v)));
+    let result = false;
+    for (const value of values) {
+      const b = toBoolean(value);
+      if (b instanceof FormulaError) return b;
+      result = result || b;
+    }
+    return values.length ? result : new FormulaError('#VALUE!');
+  },
+  NOT: ([value]) => {
+    const b = toBoolean(toScalar(value ?? false));
+    return b instanceof FormulaError ? b : !b;
+  },
+
+  // Text
+  CONCAT: args => {
+    const values = flatten(args);
+    return firstError(values) ?? values.map(toText).join('');
+  },
+  LEFT: textFunction((text, [count]) => {
+    const n = toNumber(count ?? 1);
+    return n instanceof FormulaError ? n : n < 0 ? new FormulaError('#VALUE!') : text.slice(0, n);
+  }),
+  RIGHT: textFunction((text, [count]) => {
+    const n = toNumber(count ?? 1);
+    return n instanceof FormulaError ? n : n < 0 ? new FormulaError('#VALUE!') : n === 0 ? '' : text.slice(-n);
+  }),
+  MID: textFunction((text, [start, count]) => {
+    const s = toNumber(start ?? null);
+    const n = toNumber(count ?? null);
+    if (s instanceof FormulaError) return s;
+    if (n instanceof FormulaError) return n;
+    if (s < 1 || n < 0) return new FormulaError('#VALUE!');
+    return text.substr(s - 1, n);
+  }),
+  LEN: textFunction(text => text.length),
+  TRIM: textFunction(text => text.trim().replace(/ +/g, ' ')),
+  UPPER: textFunction(text => text.toUpperCase()),
+  LOWER: textFunction(text => text.toLowerCase()),
+
+  // Lookup
+  VLOOKUP: ([lookup, table, columnIndex, approximate]) => {
+    const value = toScalar(lookup ?? null);
+    if (value instanceof FormulaError) return value;
+    const rows = toRange(table ?? null);
+    const col = toNumber(toScalar(columnIndex ?? null));
+    if (col instanceof FormulaError) return col;
+    if (col < 1 || col > (rows[0]?.length ?? 0)) return new FormulaError('#REF!');
+    const isApproximate = toBoolean(toScalar(approximate ?? true));
+    if (isApproximate instanceof FormulaError) return isApproximate;
+
+    const index = findMatch(value, rows.map(row => row[0]), isApproximate ? 1 : 0);
+    return index < 0 ? new FormulaError('#N/A') : rows[index][col - 1];
+  },
+  XLOOKUP: ([lookup, lookupArray, returnArray, ifNotFound, matchMode, searchMode]) => {
+    const value = toScalar(lookup ?? null);
+    if (value instanceof FormulaError) return value;
+    const lookupValues = flatten([lookupArray ?? null]);
+    const returnRows = toRange(returnArray ?? null);
+    const mode = toNumber(toScalar(matchMode ?? 0));
+    const search = toNumber(toScalar(searchMode ?? 1));
+    if (mode instanceof FormulaError) return mode;
+    if (search instanceof FormulaError) return search;
+
+    const order = lookupValues.map((_, i) => i);
+    if (search < 0) order.reverse();
+
+    let index = -1;
+    if (mode === 0 || mode === 2) {
+      const pattern = mode === 2 && typeof value === 'string' ? wildcardToRegExp(value) : null;
+      index = order.find(i => pattern
+        ? pattern.test(toText(lookupValues[i]))
+        : compareValues(lookupValues[i], value) === 0) ?? -1;
+    } else {
+      // -1: exact or next smaller, 1: exact or next larger
+      let best = -1;
+      for (const i of order) {
+        const candidate = lookupValues[i];
+        if (isEmpty(candidate) || candidate instanceof FormulaError) continue;
+        const comparison = compareValues(candidate, value);
+        if (comparison === 0) {
+          best = i;
+          break;
+        }
+        const qualifies = mode < 0 ? comparison < 0 : comparison > 0;
+        const better = best < 0 || (mode < 0
+          ? compareValues(candidate, lookupValues[best]) > 0
+          : compareValues(candidate, lookupValues[best]) < 0);
+        if (qualifies && better) best = i;
+      }
+      index = best;
+    }
+
+    if (index < 0) return ifNotFound ?? new FormulaError('#N/A');
+    // A single lookup row returns the matching column, otherwise the matching row
+    const isRow = returnRows.length === 1 && lookupValues.length > 1;
+    return isRow ? returnRows.map(row => [row[index]]) : [returnRows[index] ?? []];
+  },
+  INDEX: ([range, rowNumber, columnNumber]) => {
+    const rows = toRange(range ?? null);
+    const row = toNumber(toScalar(rowNumber ?? 0));
+    const col = toNumber(toScalar(columnNumber ?? 0));
+    if (row instanceof FormulaError) return row;
+    if (col instanceof FormulaError) return col;
+    if (row < 0 || col < 0 || row > rows.length || col > (rows[0]?.length ?? 0)) {
+      return new FormulaError('#REF!');
+    }
+    // A single row or column can be indexed with one number
+    if (col === 0 && rows.length === 1) return rows[0][row - 1] ?? new FormulaError('#REF!');
+    if (row === 0) return rows.map(r => [r[col - 1]]);
+    if (col === 0) return rows[0].length === 1 ? rows[row - 1][0] : [rows[row - 1]];
+    return rows[row - 1][col - 1];
+  },
+  MATCH: ([lookup, range, matchType]) => {
+    const value = toScalar(lookup ?? null);
+    if (value instanceof FormulaError) return value;
+    const type = toNumber(toScalar(matchType ?? 1));
+    if (type instanceof FormulaError) return type;
+    const index = findMatch(value, flatten([range ?? null]), Math.sign(type));
+    return index < 0 ? new FormulaError('#N/A') : index + 1;
+  },
+  SUMIF: ([range, criteria, sumRange]) => {
+    const test = toScalar(criteria ?? null);
+    if (test instanceof FormulaError) return test;
+    const values = toRange(range ?? null);
+    const sums = sumRange ? toRange(sumRange) : values;
+    let total = 0;
+    values.forEach((row, r) => row.forEach((value, c) => {
+      if (!matchesCriteria(value, test)) return;
+      const n = toNumber(sums[r]?.[c] ?? null);
+      if (typeof n === 'number') total += n;
+    }));
+    return total;
+  },
+  COUNTIF: ([range, criteria]) => {
+    const test = toScalar(criteria ?? null);
+    if (test instanceof FormulaError) return test;
+    return flatten([range ?? null]).filter(value => matchesCriteria(value, test)).length;
+  },
+
+  // Dates
+  TODAY: () => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  },
+  DATE: args => {
+    if (args.length < 3) return new FormulaError('#VALUE!');
+    const [year, month, day] = args.map(arg => toNumber(toScalar(arg)));
+    const error = firstError([year, month, day]);
+    if (error) return error;
+    // Out of range months/days roll over, as in Excel
+    return new Date(year as number, (month as number) - 1, day as number);
+  },
+  YEAR: datePart(date => date.getFullYear()),
+  MONTH: datePart(date => date.getMonth() + 1),
+  DAY: datePart(date => date.getDate()),
+};
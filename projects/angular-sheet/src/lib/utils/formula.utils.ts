@@ -0,0 +1,550 @@
+import {
+  BinaryOperator,
+  CellReference,
+  FormulaError,
+  FormulaErrorCode,
+  FormulaNode
+} from '../models/formula.model';
+import type { Range, StructureChange } from '../models/sheet.model';
+import { columnIndexToLetter, columnLetterToIndex } from './sheet.utils';
+
+// -------------------------------------
+// Tokenizer
+// -------------------------------------
+
+type TokenType =
+  | 'number'
+  | 'string'
+  | 'ref'
+  | 'sheet'
+  | 'ident'
+  | 'error'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'colon'
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  // Position of the token in the source, used when rewriting references
+  start: number;
+  end: number;
+}
+
+const REFERENCE_PATTERN = /^(\$?)([A-Za-z]{1,3})(\$?)(\d+)(?![A-Za-z0-9_(])/;
+// Sheet prefix of a reference: `Costs!`, or `'Q1 Costs'!` with quotes doubled inside
+const SHEET_PATTERN = /^([A-Za-z_][A-Za-z0-9_.]*)!/;
+const QUOTED_SHEET_PATTERN = /^'((?:[^']|'')+)'!/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*/;
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const ERROR_PATTERN = /^#(DIV\/0!|VALUE!|REF!|NAME\?|N\/A|NUM!|CIRCULAR!|BUSY!|ERROR!)/;
+const OPERATORS = ['<>', '<=', '>=', '+', '-', '*', '/', '^', '&', '=', '<', '>', '%'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  const push = (type: TokenType, text: string, length: number) => {
+    tokens.push({ type, text, start: i, end: i + length });
+    i += length;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.slice(i);
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      // Strings use doubled quotes as the escape: "say ""hi"""
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length) {
+        if (source[i] === '"') {
+          if (source[i + 1] === '"') {
+            value += '"';
+            i += 2;
+            continue;
+          }
+          break;
+        }
+        value += source[i++];
+      }
+      if (i >= source.length) {
+        throw new FormulaError('#ERROR!', 'Unterminated string');
+      }
+      i++;
+      tokens.push({ type: 'string', text: value, start, end: i });
+      continue;
+    }
+
+    const numberMatch = NUMBER_PATTERN.exec(rest);
+    if (numberMatch) {
+      push('number', numberMatch[0], numberMatch[0].length);
+      continue;
+    }
+
+    const errorMatch = ERROR_PATTERN.exec(rest);
+    if (errorMatch) {
+      push('error', errorMatch[0], errorMatch[0].length);
+      continue;
+    }
+
+    const sheetMatch = QUOTED_SHEET_PATTERN.exec(rest) ?? SHEET_PATTERN.exec(rest);
+    if (sheetMatch) {
+      push('sheet', sheetMatch[1].replace(/''/g, "'"), sheetMatch[0].length);
+      continue;
+    }
+
+    const referenceMatch = REFERENCE_PATTERN.exec(rest);
+    if (referenceMatch) {
+      push('ref', referenceMatch[0], referenceMatch[0].length);
+      continue;
+    }
+
+    const identifierMatch = IDENTIFIER_PATTERN.exec(rest);
+    if (identifierMatch) {
+      push('ident', identifierMatch[0], identifierMatch[0].length);
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (operator) {
+      push('operator', operator, operator.length);
+      continue;
+    }
+
+    switch (char) {
+      case '(':
+        push('lparen', char, 1);
+        break;
+      case ')':
+        push('rparen', char, 1);
+        break;
+      case ',':
+        push('comma', char, 1);
+        break;
+      case ':':
+        push('colon', char, 1);
+        break;
+      default:
+        throw new FormulaError('#ERROR!', `Unexpected character "${char}"`);
+    }
+  }
+
+  tokens.push({ type: 'eof', text: '', start: i, end: i });
+  return tokens;
+}
+
+// -------------------------------------
+// Parser (recursive descent, Excel precedence)
+// -------------------------------------
+
+class FormulaParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) { }
+
+  parse(): FormulaNode {
+    const node = this.parseComparison();
+    if (this.peek().type !== 'eof') {
+      throw new FormulaError('#ERROR!', `Unexpected "${this.peek().text}"`);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++];
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && operators.includes(token.text);
+  }
+
+  private expect(type: TokenType): Token {
+    const token = this.next();
+    if (token.type !== type) {
+      throw new FormulaError('#ERROR!', `Expected ${type} but found "${token.text}"`);
+    }
+    return token;
+  }
+
+  private parseComparison(): FormulaNode {
+    let left = this.parseConcatenation();
+    while (this.isOperator('=', '<>', '<', '>', '<=', '>=')) {
+      const operator = this.next().text as BinaryOperator;
+      left = { type: 'binary', operator, left, right: this.parseConcatenation() };
+    }
+    return left;
+  }
+
+  private parseConcatenation(): FormulaNode {
+    let left = this.parseAdditive();
+    while (this.isOperator('&')) {
+      this.next();
+      left = { type: 'binary', operator: '&', left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): FormulaNode {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+', '-')) {
+      const operator = this.next().text as BinaryOperator;
+      left = { type: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): FormulaNode {
+    let left = this.parsePower();
+    while (this.isOperator('*', '/')) {
+      const operator = this.next().text as BinaryOperator;
+      left = { type: 'binary', operator, left, right: this.parsePower() };
+    }
+    return left;
+  }
+
+  private parsePower(): FormulaNode {
+    let left = this.parseUnary();
+    while (this.isOperator('^')) {
+      this.next();
+      left = { type: 'binary', operator: '^', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  // As in Excel, negation binds tighter than ^ (-2^2 = 4)
+  private parseUnary(): FormulaNode {
+    if (this.isOperator('-', '+')) {
+      const operator = this.next().text as '-' | '+';
+      return { type: 'unary', operator, operand: this.parseUnary() };
+    }
+    return this.parsePercent();
+  }
+
+  private parsePercent(): FormulaNode {
+    let operand = this.parsePrimary();
+    while (this.isOperator('%')) {
+      this.next();
+      operand = { type: 'unary', operator: '%', operand };
+    }
+    return operand;
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.text) };
+      case 'string':
+        return { type: 'string', value: token.text };
+      case 'error':
+        return { type: 'error', code: token.text as FormulaErrorCode };
+      case 'lparen': {
+        const inner = this.parseComparison();
+        this.expect('rparen');
+        return inner;
+      }
+      case 'ref':
+        return this.parseReference(token);
+      case 'sheet':
+        // A range name defined on that sheet, e.g. Costs!TaxRate
+        if (this.peek().type === 'ident') {
+          return { type: 'name', name: this.next().text, sheet: token.text };
+        }
+        return this.parseReference(this.expect('ref'), token.text);
+      case 'ident':
+        return this.parseIdentifier(token);
+      default:
+        throw new FormulaError('#ERROR!', `Unexpected "${token.text || 'end of formula'}"`);
+    }
+  }
+
+  private parseReference(token: Token, sheet?: string): FormulaNode {
+    const start = parseCellReference(token.text)!;
+    if (this.peek().type === 'colon') {
+      this.next();
+      const end = parseCellReference(this.expect('ref').text)!;
+      return sheet ? { type: 'range', start, end, sheet } : { type: 'range', start, end };
+    }
+    return sheet ? { type: 'cell', ref: start, sheet } : { type: 'cell', ref: start };
+  }
+
+  private parseIdentifier(token: Token): FormulaNode {
+    const name = token.text.toUpperCase();
+
+    if (this.peek().type === 'lparen') {
+      this.next();
+      const args: FormulaNode[] = [];
+      if (this.peek().type !== 'rparen') {
+        args.push(this.parseArgument());
+        while (this.peek().type === 'comma') {
+          this.next();
+          args.push(this.parseArgument());
+        }
+      }
+      this.expect('rparen');
+      return { type: 'function', name, args };
+    }
+
+    if (name === 'TRUE' || name === 'FALSE') {
+      return { type: 'boolean', value: name === 'TRUE' };
+    }
+
+    // A range name; unknown names evaluate to #NAME?
+    return { type: 'name', name: token.text };
+  }
+
+  // Arguments may be left out, e.g. XLOOKUP(A1, B1:B9, C1:C9, , 2)
+  private parseArgument(): FormulaNode {
+    const next = this.peek().type;
+    return next === 'comma' || next === 'rparen' ? { type: 'empty' } : this.parseComparison();
+  }
+}
+
+// -------------------------------------
+// Public helpers
+// -------------------------------------
+
+/**
+ * True if the input should be treated as a formula (starts with "=" and has a body).
+ */
+export function isFormulaInput(input: unknown): input is string {
+  return typeof input === 'string' && input.length > 1 && input.startsWith('=');
+}
+
+/**
+ * Parses a formula (with or without the leading "=") into an AST.
+ * Throws a FormulaError when the formula is malformed.
+ */
+export function parseFormula(source: string): FormulaNode {
+  const body = source.startsWith('=') ? source.slice(1) : source;
+  return new FormulaParser(tokenize(body)).parse();
+}
+
+/**
+ * Parses an A1 reference such as `B3` or `$B$3`. Returns null if the text is not a reference.
+ */
+export function parseCellReference(text: string): CellReference | null {
+  const match = /^(\$?)([A-Za-z]{1,3})(\$?)(\d+)$/.exec(text.trim());
+  if (!match) return null;
+  const row = parseInt(match[4], 10) - 1;
+  if (row < 0) return null;
+  return {
+    colAbsolute: match[1] === '$',
+    col: columnLetterToIndex(match[2]),
+    rowAbsolute: match[3] === '$',
+    row
+  };
+}
+
+/**
+ * Parses an A1 reference or range such as `B3` or `A1:C5`. Returns null if the text is neither.
+ */
+export function parseRangeReference(text: string): Range | null {
+  const [first, second, ...rest] = text.split(':');
+  if (rest.length > 0) return null;
+  const start = parseCellReference(first);
+  const end = second === undefined ? start : parseCellReference(second);
+  if (!start || !end) return null;
+  return { start: { row: start.row, col: start.col }, end: { row: end.row, col: end.col } };
+}
+
+/**
+ * True if the text can name a range: it has to read back as a name in
+ * formulas, so it can't start like a cell reference or be TRUE/FALSE.
+ */
+export function isValidRangeName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) &&
+    !REFERENCE_PATTERN.test(name) &&
+    !['TRUE', 'FALSE'].includes(name.toUpperCase());
+}
+
+/**
+ * Formats a reference back to A1 text, keeping its `$` anchors.
+ */
+export function formatCellReference(ref: CellReference): string {
+  return `${ref.colAbsolute ? '$' : ''}${columnIndexToLetter(ref.col)}${ref.rowAbsolute ? '$' : ''}${ref.row + 1}`;
+}
+
+/**
+ * True if two sheet names refer to the same sheet (names are case-insensitive).
+ */
+export function isSameSheetName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// `Costs!`, or `'Q1 Costs'!` for names that would not read back bare
+function formatSheetPrefix(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) ? `${name}!` : `'${name.replace(/'/g, "''")}'!`;
+}
+
+// -------------------------------------
+// Reference rewriting
+// -------------------------------------
+
+// Which references of a formula a rewrite applies to: unqualified ones (`local`)
+// and/or the ones qualified with the sheet name `sheet`
+export interface ReferenceScope {
+  local: boolean;
+  sheet?: string;
+}
+
+function isInScope(scope: ReferenceScope, sheet: string | undefined): boolean {
+  return sheet === undefined ? scope.local : scope.sheet !== undefined && isSameSheetName(sheet, scope.sheet);
+}
+
+// Callbacks get the sheet a reference is qualified with, if any
+interface ReferenceRewriter {
+  cell(ref: CellReference, sheet: string | undefined): CellReference | null;
+  range(start: CellReference, end: CellReference, sheet: string | undefined): [CellReference, CellReference] | null;
+}
+
+/**
+ * Rewrites every reference in a formula, leaving the rest of the text untouched.
+ * References the rewriter drops (returns null for) become `#REF!`.
+ */
+function rewriteReferences(formula: string, rewriter: ReferenceRewriter): string {
+  if (!isFormulaInput(formula)) return formula;
+  const body = formula.slice(1);
+
+  let tokens: Token[];
+  try {
+    tokens = tokenize(body);
+  } catch {
+    return formula;
+  }
+
+  let result = '';
+  let cursor = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'ref') continue;
+
+    // The sheet prefix is kept as written, unless the reference becomes #REF!
+    const prefix = tokens[i - 1]?.type === 'sheet' ? tokens[i - 1] : undefined;
+    const sheet = prefix?.text;
+    let replacement: string;
+    let end = token.end;
+    if (tokens[i + 1]?.type === 'colon' && tokens[i + 2]?.type === 'ref') {
+      const range = rewriter.range(parseCellReference(token.text)!, parseCellReference(tokens[i + 2].text)!, sheet);
+      replacement = range ? `${formatCellReference(range[0])}:${formatCellReference(range[1])}` : '#REF!';
+      end = tokens[i + 2].end;
+      i += 2;
+    } else {
+      const ref = rewriter.cell(parseCellReference(token.text)!, sheet);
+      replacement = ref ? formatCellReference(ref) : '#REF!';
+    }
+
+    const start = prefix && replacement === '#REF!' ? prefix.start : token.start;
+    result += body.slice(cursor, start) + replacement;
+    cursor = end;
+  }
+  return `=${result}${body.slice(cursor)}`;
+}
+
+/**
+ * Moves the relative references of a formula by the given offset, as when the
+ * formula is copied to another cell. `$`-anchored parts stay put.
+ */
+export function shiftFormula(formula: string, rowOffset: number, colOffset: number): string {
+  if (rowOffset === 0 && colOffset === 0) return formula;
+  const shift = (ref: CellReference): CellReference | null => {
+    const row = ref.rowAbsolute ? ref.row : ref.row + rowOffset;
+    const col = ref.colAbsolute ? ref.col : ref.col + colOffset;
+    return row < 0 || col < 0 ? null : { ...ref, row, col };
+  };
+  return rewriteReferences(formula, {
+    cell: shift,
+    range: (start, end) => {
+      const newStart = shift(start);
+      const newEnd = shift(end);
+      return newStart && newEnd ? [newStart, newEnd] : null;
+    }
+  });
+}
+
+/**
+ * Adjusts the references of a formula after rows/columns were inserted or deleted.
+ * Unlike copying, anchored references move too; references to deleted cells
+ * become `#REF!` and ranges shrink when part of them is deleted.
+ * `scope` picks the references into the changed sheet; by default the unqualified ones.
+ */
+export function adjustFormulaForStructureChange(
+  formula: string,
+  change: StructureChange,
+  scope: ReferenceScope = { local: true }
+): string {
+  const key = change.axis === 'row' ? 'row' : 'col';
+  const { index, count } = change;
+
+  // Where a start/end coordinate ends up (null if it was deleted)
+  const moveStart = (n: number): number | null => {
+    if (count > 0) return n >= index ? n + count : n;
+    const deletedEnd = index - count;
+    return n < index ? n : n >= deletedEnd ? n + count : index;
+  };
+  const moveEnd = (n: number): number | null => {
+    if (count > 0) return n >= index ? n + count : n;
+    const deletedEnd = index - count;
+    return n < index ? n : n >= deletedEnd ? n + count : index - 1;
+  };
+
+  return rewriteReferences(formula, {
+    cell: (ref, sheet) => {
+      if (!isInScope(scope, sheet)) return ref;
+      const n = ref[key];
+      if (count < 0 && n >= index && n < index - count) return null;
+      return { ...ref, [key]: moveStart(n)! };
+    },
+    range: (start, end, sheet) => {
+      if (!isInScope(scope, sheet)) return [start, end];
+      const forward = start[key] <= end[key];
+      const first = forward ? start : end;
+      const last = forward ? end : start;
+      const newFirst = moveStart(first[key])!;
+      const newLast = moveEnd(last[key])!;
+      if (newLast < newFirst) return null;
+      const movedFirst = { ...first, [key]: newFirst };
+      const movedLast = { ...last, [key]: newLast };
+      return forward ? [movedFirst, movedLast] : [movedLast, movedFirst];
+    }
+  });
+}
+
+/**
+ * Points the references to sheet `from` at `to`, after the sheet was renamed.
+ */
+export function renameSheetInFormula(formula: string, from: string, to: string): string {
+  if (!isFormulaInput(formula)) return formula;
+  const body = formula.slice(1);
+
+  let tokens: Token[];
+  try {
+    tokens = tokenize(body);
+  } catch {
+    return formula;
+  }
+
+  let result = '';
+  let cursor = 0;
+  tokens.forEach(token => {
+    if (token.type !== 'sheet' || !isSameSheetName(token.text, from)) return;
+    result += body.slice(cursor, token.start) + formatSheetPrefix(to);
+    cursor = token.end;
+  });
+  return `=${result}${body.slice(cursor)}`;
+}
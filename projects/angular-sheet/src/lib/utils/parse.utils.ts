@@ -0,0 +1,239 @@
+import type { Cell } from '../models/sheet.model';
+import { getDateNames, getSeparators } from './format.utils';
+
+// -------------------------------------
+// Types
+// -------------------------------------
+
+export interface InputParseOptions {
+  // BCP 47 tag for separators, date order and month names (defaults to the browser's)
+  locale?: string;
+  // Text typed into 'string' cells that looks like a plain number is stored as a number
+  inferTypes?: boolean;
+}
+
+// The value to store, or why the input can't be read as the datatype
+export type ParsedInput = { value: Cell['value'] } | { error: string };
+
+// Sign, digits, separators and exponent only: no currency, percent or parentheses
+const PLAIN_NUMBER_PATTERN = /^[+-]?[\d.,\s]*\d[\d.,\s]*([eE][+-]?\d+)?$/;
+const TIME_PATTERN = /(?:^|[\sT])(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?$/i;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+const TRUE_TEXT = ['true', 'yes', '1'];
+const FALSE_TEXT = ['false', 'no', '0'];
+
+// -------------------------------------
+// Input
+// -------------------------------------
+
+/**
+ * Reads what was typed into a cell as its datatype: numbers and dates are parsed
+ * for the locale, booleans from TRUE/FALSE (or yes/no, 1/0). Empty input clears
+ * typed cells. Values that aren't text are taken as they are.
+ */
+export function parseInput(
+  input: string | number | boolean | Date,
+  datatype: Cell['datatype'],
+  options: InputParseOptions = {}
+): ParsedInput {
+  if (typeof input !== 'string') return { value: input };
+  if (datatype !== 'string' && datatype !== 'formula' && input.trim() === '') return { value: null };
+
+  switch (datatype) {
+    case 'number': {
+      const n = parseNumber(input, options.locale);
+      return n === null ? { error: `"${input}" is not a number` } : { value: n };
+    }
+    case 'date': {
+      const date = parseDate(input, options.locale);
+      return date === null ? { error: `"${input}" is not a date` } : { value: date };
+    }
+    case 'boolean': {
+      const bool = parseBoolean(input);
+      return bool === null ? { error: `"${input}" is not TRUE or FALSE` } : { value: bool };
+    }
+    default: {
+      if (options.inferTypes && PLAIN_NUMBER_PATTERN.test(input.trim())) {
+        const n = parseNumber(input, options.locale);
+        if (n !== null) return { value: n };
+      }
+      return { value: input };
+    }
+  }
+}
+
+/**
+ * The text the editor shows for a value, in a form `parseInput` reads back:
+ * numbers with the locale's decimal separator, dates as `yyyy-mm-dd hh:mm:ss`
+ * (the time only when there is one).
+ */
+export function toInputText(value: Cell['value'], locale?: string): string {
+  if (value == null) return '';
+  if (typeof value === 'number') return String(value).replace('.', getSeparators(locale).decimal);
+  if (value instanceof Date) {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const date = `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+    if (!value.getHours() && !value.getMinutes() && !value.getSeconds()) return date;
+    return `${date} ${pad(value.getHours())}:${pad(value.getMinutes())}` + (value.getSeconds() ? `:${pad(value.getSeconds())}` : '');
+  }
+  return value.toString();
+}
+
+// -------------------------------------
+// Numbers
+// -------------------------------------
+
+/**
+ * Parses a number written for a locale: `1,234.5` (en-US) or `1.234,5` (de-DE).
+ * Thousands separators must group by three. A leading or trailing currency symbol
+ * is ignored, `%` divides by 100 and parentheses make the number negative.
+ * Returns null when the text isn't a number.
+ */
+export function parseNumber(text: string, locale?: string): number | null {
+  const { decimal, group } = getSeparators(locale);
+  let body = text.trim();
+  let negative = false;
+  let scale = 1;
+
+  if (body.startsWith('(') && body.endsWith(')')) {
+    negative = true;
+    body = body.slice(1, -1).trim();
+  }
+  if (body.endsWith('%')) {
+    scale = 0.01;
+    body = body.slice(0, -1).trim();
+  }
+  body = body.replace(/^([+-]?)\s*\p{Sc}\s*/u, '$1').replace(/\s*\p{Sc}$/u, '');
+  if (body.startsWith('-') || body.startsWith('+')) {
+    negative = negative !== body.startsWith('-');
+    body = body.slice(1);
+  }
+  // Locales grouping with (narrow) no-break spaces accept any space
+  if (/^\s$/.test(group)) {
+    body = body.replace(/\s/g, group);
+  }
+
+  const exponent = /[eE]([+-]?\d+)$/.exec(body);
+  if (exponent) body = body.slice(0, exponent.index);
+  const parts = body.split(decimal);
+  if (parts.length > 2) return null;
+  let [integer, fraction = ''] = parts;
+  if (integer.includes(group)) {
+    const groups = integer.split(group);
+    if (!/^\d{1,3}$/.test(groups[0]) || groups.slice(1).some(digits => !/^\d{3}$/.test(digits))) return null;
+    integer = groups.join('');
+  }
+  if (!/^\d*$/.test(integer) || !/^\d*$/.test(fraction) || !(integer || fraction)) return null;
+
+  const n = Number(`${integer || '0'}.${fraction || '0'}e${exponent?.[1] ?? 0}`) * scale;
+  return negative ? -n : n;
+}
+
+// -------------------------------------
+// Dates
+// -------------------------------------
+
+const dateOrders = new Map<string, string[]>();
+
+/**
+ * Parses a date, optionally followed by a time (`13:45`, `1:45 pm`, `13:45:10`).
+ * Dates are ISO (`2024-01-15`), numeric in the locale's order (`1/15/2024` in
+ * en-US, `15.01.2024` in de-DE) or use a month name (`15 Jan 2024`, `January 15, 2024`).
+ * Two-digit years up to 29 are 20xx, the others 19xx. Returns null for anything
+ * else, including days that don't exist.
+ */
+export function parseDate(text: string, locale?: string): Date | null {
+  let rest = text.trim();
+  let hours = 0;
+  let minutes = 0;
+  let seconds = 0;
+  const time = TIME_PATTERN.exec(rest);
+  if (time) {
+    hours = Number(time[1]);
+    minutes = Number(time[2]);
+    seconds = Number(time[3] ?? 0);
+    const meridiem = time[4]?.toLowerCase();
+    if (meridiem && (hours < 1 || hours > 12)) return null;
+    if (meridiem) hours = hours % 12 + (meridiem === 'pm' ? 12 : 0);
+    rest = rest.slice(0, time.index).trim();
+  }
+
+  const parts = readDateParts(rest, locale);
+  if (!parts) return null;
+  let { year } = parts;
+  const { month, day } = parts;
+  if (year < 100) year += year < 30 ? 2000 : 1900;
+
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  // Out-of-range fields roll over (Feb 30 -> Mar 1); those dates are refused
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day
+    || date.getHours() !== hours || date.getMinutes() !== minutes || date.getSeconds() !== seconds) {
+    return null;
+  }
+  return date;
+}
+
+function readDateParts(text: string, locale?: string): { year: number; month: number; day: number } | null {
+  const iso = ISO_DATE_PATTERN.exec(text);
+  if (iso) return { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+
+  const parts = text.split(/[\s/.,-]+/).filter(part => part);
+  if (parts.length !== 3) return null;
+
+  const named = parts.findIndex(part => /\p{L}/u.test(part));
+  if (named >= 0) {
+    const month = findMonth(parts[named], locale);
+    const numbers = parts.filter((_, i) => i !== named);
+    if (!month || numbers.some(part => !/^\d+$/.test(part))) return null;
+    // "2024 Jan 15" puts the year first; otherwise the day comes first
+    const [day, year] = numbers[0].length === 4 ? [numbers[1], numbers[0]] : numbers;
+    return { year: Number(year), month, day: Number(day) };
+  }
+
+  if (parts.some(part => !/^\d+$/.test(part))) return null;
+  // A four-digit first part is always year-month-day
+  const order = parts[0].length === 4 ? ['year', 'month', 'day'] : getDateOrder(locale);
+  const value = (type: string) => Number(parts[order.indexOf(type)]);
+  return { year: value('year'), month: value('month'), day: value('day') };
+}
+
+// Month number (1-12) of a long or short month name of the locale
+function findMonth(name: string, locale?: string): number | null {
+  const normalize = (text: string) => text.toLowerCase().replace(/\.$/, '');
+  const wanted = normalize(name);
+  const names = getDateNames(locale);
+  const index = names.months.findIndex((month, i) => normalize(month) === wanted || normalize(names.shortMonths[i]) === wanted);
+  return index >= 0 ? index + 1 : null;
+}
+
+// Order of day, month and year in the locale's numeric dates, e.g. month-day-year for en-US
+function getDateOrder(locale?: string): string[] {
+  const key = locale ?? '';
+  let order = dateOrders.get(key);
+  if (!order) {
+    const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: 'UTC' };
+    let format: Intl.DateTimeFormat;
+    try {
+      format = new Intl.DateTimeFormat(locale, options);
+    } catch {
+      format = new Intl.DateTimeFormat(undefined, options);
+    }
+    order = format.formatToParts(Date.UTC(2000, 10, 22))
+      .map(part => part.type)
+      .filter(type => type === 'year' || type === 'month' || type === 'day');
+    dateOrders.set(key, order);
+  }
+  return order;
+}
+
+// -------------------------------------
+// Booleans
+// -------------------------------------
+
+// TRUE/FALSE, yes/no or 1/0, in any case; null for anything else
+export function parseBoolean(text: string): boolean | null {
+  const lower = text.trim().toLowerCase();
+  if (TRUE_TEXT.includes(lower)) return true;
+  if (FALSE_TEXT.includes(lower)) return false;
+  return null;
+}
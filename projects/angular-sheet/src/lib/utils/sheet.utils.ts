@@ -1,7 +1,227 @@
-export function getAccumulatedHeight(rows: { height: number }[], upTo: number): number {
-    return rows.slice(0, upTo).reduce((sum, row) => sum + row.height, 0);
+import type { Cell, NamedRange, OutlineGroup, Range, Sheet, StructureChange } from '../models/sheet.model';
+import { CellStore, DenseCellStore } from '../models/cell-store.model';
+
+// Dense wrappers are cached per cells array so lookups don't allocate
+const denseStores = new WeakMap<Cell[][], DenseCellStore>();
+
+/**
+ * The store holding a sheet's cells: `sheet.store` if set, otherwise `sheet.cells`.
+ */
+export function getCellStore(sheet: Sheet): CellStore {
+    if (sheet.store) return sheet.store;
+    let store = denseStores.get(sheet.cells);
+    if (!store) {
+        store = new DenseCellStore(sheet.cells);
+        denseStores.set(sheet.cells, store);
+    }
+    return store;
+}
+
+// The cell at a position, or undefined if it is empty
+export function getCell(sheet: Sheet, row: number, col: number): Cell | undefined {
+    return getCellStore(sheet).get(row, col);
+}
+
+export function isInSheet(sheet: Sheet, row: number, col: number): boolean {
+    return row >= 0 && col >= 0 && row < sheet.rows.length && col < sheet.columns.length;
+}
+
+export function rangeContains(range: Range, row: number, col: number): boolean {
+    const { start, end } = normalizeRange(range);
+    return row >= start.row && row <= end.row && col >= start.col && col <= end.col;
+}
+
+// Whether two ranges share at least one cell
+export function rangesIntersect(a: Range, b: Range): boolean {
+    const first = normalizeRange(a);
+    const second = normalizeRange(b);
+    return first.start.row <= second.end.row && second.start.row <= first.end.row &&
+        first.start.col <= second.end.col && second.start.col <= first.end.col;
+}
+
+// The merged area covering a position, if any
+export function getMergeAt(sheet: Sheet, row: number, col: number): Range | undefined {
+    const merge = sheet.merges?.find(range => rangeContains(range, row, col));
+    return merge && normalizeRange(merge);
+}
+
+// The position holding the value of a merged area (its top-left cell), or the position itself
+export function getMergeAnchor(sheet: Sheet, row: number, col: number): { row: number; col: number } {
+    return getMergeAt(sheet, row, col)?.start ?? { row, col };
+}
+
+/**
+ * Grows a range until every merged area it touches lies completely inside it.
+ */
+export function expandRangeToMerges(sheet: Sheet, range: Range): Range {
+    let bounds = normalizeRange(range);
+    const merges = (sheet.merges ?? []).map(merge => normalizeRange(merge));
+    let grown = merges.length > 0;
+    // Growing can bring in more merges, so repeat until nothing changes
+    while (grown) {
+        grown = false;
+        for (const merge of merges) {
+            const isInside = rangeContains(bounds, merge.start.row, merge.start.col) &&
+                rangeContains(bounds, merge.end.row, merge.end.col);
+            if (isInside || !rangesIntersect(bounds, merge)) continue;
+            bounds = {
+                start: { row: Math.min(bounds.start.row, merge.start.row), col: Math.min(bounds.start.col, merge.start.col) },
+                end: { row: Math.max(bounds.end.row, merge.end.row), col: Math.max(bounds.end.col, merge.end.col) }
+            };
+            grown = true;
+        }
+    }
+    return bounds;
+}
+
+// The named range of a sheet with the given name (names are case-insensitive)
+export function getNamedRange(sheet: Sheet, name: string): NamedRange | undefined {
+    const key = name.toLowerCase();
+    return sheet.namedRanges?.find(named => named.name.toLowerCase() === key);
+}
+
+// The outline groups of one axis of a sheet
+export function getOutlineGroups(sheet: Sheet, axis: StructureChange['axis']): OutlineGroup[] {
+    return (axis === 'row' ? sheet.rowGroups : sheet.columnGroups) ?? [];
+}
+
+// Nesting depth of an outline group: 0 for outermost groups
+export function getOutlineLevel(groups: OutlineGroup[], group: OutlineGroup): number {
+    return groups.filter(other => other !== group && other.start <= group.start && other.end >= group.end).length;
+}
+
+// The outline groups whose bracket and button are shown: those not inside a collapsed group
+export function getShownOutlineGroups(groups: OutlineGroup[]): OutlineGroup[] {
+    return groups.filter(group => !groups.some(other =>
+        other !== group && other.collapsed && other.start <= group.start && other.end >= group.end));
+}
+
+// Number of outline levels along an axis (0 without groups)
+export function getOutlineDepth(groups: OutlineGroup[]): number {
+    return groups.reduce((depth, group) => Math.max(depth, getOutlineLevel(groups, group) + 1), 0);
+}
+
+/**
+ * Calls `callback` once for every cell covered by the ranges, also where ranges overlap.
+ */
+export function forEachCellInRanges(ranges: Range[], callback: (row: number, col: number) => void): void {
+    const normalized = ranges.map(range => normalizeRange(range));
+    normalized.forEach((range, index) => {
+        const earlier = normalized.slice(0, index);
+        for (let row = range.start.row; row <= range.end.row; row++) {
+            for (let col = range.start.col; col <= range.end.col; col++) {
+                // Cells of an earlier range have been visited already
+                if (earlier.some(other => rangeContains(other, row, col))) continue;
+                callback(row, col);
+            }
+        }
+    });
+}
+
+/**
+ * Where a range ends up when rows/columns are inserted or deleted: it moves
+ * with its cells, grows or shrinks when the change falls inside it, and is
+ * null when all of it was deleted.
+ */
+export function adjustRangeForStructureChange(range: Range, change: StructureChange): Range | null {
+    const { start, end } = normalizeRange(range);
+    const key = change.axis === 'row' ? 'row' : 'col';
+    const span = adjustSpanForStructureChange(start[key], end[key], change);
+    if (!span) return null;
+    return { start: { ...start, [key]: span.start }, end: { ...end, [key]: span.end } };
+}
+
+// Same as adjustRangeForStructureChange, for rows/columns `start`..`end` along the changed axis
+export function adjustSpanForStructureChange(
+    start: number,
+    end: number,
+    change: StructureChange
+): { start: number; end: number } | null {
+    const { index, count } = change;
+    const move = (n: number, isEnd: boolean): number => {
+        if (count > 0) return n >= index ? n + count : n;
+        if (n < index) return n;
+        return n >= index - count ? n + count : isEnd ? index - 1 : index;
+    };
+
+    const first = move(start, false);
+    const last = move(end, true);
+    return last < first ? null : { start: first, end: last };
+}
+
+/**
+ * Formats a range as an A1 address ("B2", or "B2:C4" when it spans several cells).
+ */
+export function rangeToA1(range: Range): string {
+    const { start, end } = normalizeRange(range);
+    const first = toA1(start.row, start.col);
+    return start.row === end.row && start.col === end.col ? first : `${first}:${toA1(end.row, end.col)}`;
+}
+
+/**
+ * Returns the range with start at the top-left and end at the bottom-right.
+ */
+export function normalizeRange(range: Range): Range {
+    return {
+        start: { row: Math.min(range.start.row, range.end.row), col: Math.min(range.start.col, range.end.col) },
+        end: { row: Math.max(range.start.row, range.end.row), col: Math.max(range.start.col, range.end.col) }
+    };
+}
+
+/**
+ * Converts a zero-based column index to its spreadsheet letter (0 -> A, 26 -> AA).
+ */
+export function columnIndexToLetter(colIndex: number): string {
+    let letters = '';
+    let n = colIndex + 1;
+    while (n > 0) {
+        const remainder = (n - 1) % 26;
+        letters = String.fromCharCode(65 + remainder) + letters;
+        n = Math.floor((n - 1) / 26);
+    }
+    return letters;
+}
+
+/**
+ * Converts spreadsheet column letters to a zero-based index (A -> 0, AA -> 26).
+ */
+export function columnLetterToIndex(letters: string): number {
+    let index = 0;
+    for (const char of letters.toUpperCase()) {
+        index = index * 26 + (char.charCodeAt(0) - 64);
+    }
+    return index - 1;
+}
+
+/**
+ * Formats a zero-based row/col pair as an A1 address.
+ */
+export function toA1(row: number, col: number): string {
+    return `${columnIndexToLetter(col)}${row + 1}`;
+}
+
+// Day zero of the spreadsheet serial date system (as used by Excel)
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts a Date to a spreadsheet serial number (days since 1899-12-30, local time).
+ */
+export function dateToSerial(date: Date): number {
+    const utc = Date.UTC(
+        date.getFullYear(), date.getMonth(), date.getDate(),
+        date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+    );
+    return (utc - SERIAL_EPOCH) / MS_PER_DAY;
 }
 
-export function getAccumulatedWidth(columns: { width: number }[], upTo: number): number {
-    return columns.slice(0, upTo).reduce((sum, col) => sum + col.width, 0);
+/**
+ * Converts a spreadsheet serial number back to a local Date.
+ */
+export function serialToDate(serial: number): Date {
+    const utc = new Date(SERIAL_EPOCH + Math.round(serial * MS_PER_DAY));
+    return new Date(
+        utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(),
+        utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds(), utc.getUTCMilliseconds()
+    );
 }
@@ -0,0 +1,155 @@
+import { Cell, CellStyles, Sheet } from '../models/sheet.model';
+
+// -------------------------------------
+// Cascade
+// -------------------------------------
+
+const builtInStyles = new CellStyles();
+// Results of `overrideStyles` by base and overrides, so every frame reuses the same objects
+const overridden = new WeakMap<CellStyles, WeakMap<Partial<CellStyles>, CellStyles>>();
+
+/**
+ * The styles a cell is drawn with: the sheet's `defaultStyles`, then its column's,
+ * its row's and finally its own, each overriding the ones before. Only properties
+ * a layer sets override (see `CellStyles.getSetProperties`), so a new cell (or one
+ * pasted into the column) shows its column's style while a cell set back to a
+ * default, such as a white background, keeps it.
+ *
+ * Results are cached by object: replace a styles object to change it instead of mutating it.
+ */
+export function resolveCellStyles(sheet: Sheet, row: number, col: number, cell?: Cell): CellStyles {
+  let styles = builtInStyles;
+  for (const layer of [sheet.defaultStyles, sheet.columns[col]?.styles, sheet.rows[row]?.styles, cell?.styles]) {
+    if (layer) styles = overrideStyles(styles, layer);
+  }
+  return styles;
+}
+
+/**
+ * The styles with every property the overrides set replaced, even by a `CellStyles`
+ * default (a conditional format may turn a colored cell back to white). Cached like
+ * `resolveCellStyles`, and the styles passed in are left as they are.
+ */
+export function overrideStyles(base: CellStyles, overrides: Partial<CellStyles>): CellStyles {
+  let results = overridden.get(base);
+  if (!results) {
+    results = new WeakMap();
+    overridden.set(base, results);
+  }
+  let result = results.get(overrides);
+  if (!result) {
+    const set = CellStyles.getSetProperties(overrides);
+    result = Object.keys(set).length > 0 ? new CellStyles({ ...base, ...set }) : base;
+    results.set(overrides, result);
+  }
+  return result;
+}
+
+// -------------------------------------
+// Borders
+// -------------------------------------
+
+export interface BorderStyle {
+  width: number;
+  style: 'solid' | 'dashed' | 'dotted' | 'double';
+  color: string;
+}
+
+const BORDER_STYLES = ['none', 'hidden', 'solid', 'dashed', 'dotted', 'double'];
+// Widths of the CSS width keywords, in pixels
+const BORDER_WIDTHS: Record<string, number> = { thin: 1, medium: 3, thick: 5 };
+
+/**
+ * Parses a CSS border shorthand such as `"1px solid black"` or `"thick double #c00"`,
+ * in any order. Returns null when the border draws nothing: no style, `none`/`hidden`
+ * or a zero width. As in CSS a missing width is `medium` and a missing color `currentColor`.
+ */
+export function parseBorder(border: string, currentColor = 'black'): BorderStyle | null {
+  let width = BORDER_WIDTHS['medium'];
+  let style: string | undefined;
+  let color = currentColor;
+  // Colors like rgb(0, 0, 0) contain spaces, so those stay one token
+  for (const token of border.trim().match(/[^\s(]+(\([^)]*\))?/g) ?? []) {
+    const keyword = token.toLowerCase();
+    if (BORDER_STYLES.includes(keyword)) {
+      style = keyword;
+    } else if (keyword in BORDER_WIDTHS) {
+      width = BORDER_WIDTHS[keyword];
+    } else if (/^\d*\.?\d+(px)?$/.test(keyword)) {
+      width = parseFloat(keyword);
+    } else {
+      color = token;
+    }
+  }
+  if (!style || style === 'none' || style === 'hidden' || width <= 0) return null;
+  return { width, style: style as BorderStyle['style'], color };
+}
+
+// True if any side of the cell has a border to draw
+export function hasBorders(styles: CellStyles): boolean {
+  return [styles.borderTop, styles.borderRight, styles.borderBottom, styles.borderLeft]
+    .some(border => border && border !== 'none' && parseBorder(border) !== null);
+}
+
+// -------------------------------------
+// Box and text
+// -------------------------------------
+
+export interface BoxSides {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * Parses a CSS padding shorthand of one to four pixel values (`"2px 10px"`).
+ */
+export function parsePadding(padding: string): BoxSides {
+  const values = padding.trim().split(/\s+/).map(value => Math.max(parseFloat(value) || 0, 0));
+  const [top = 0, right = top, bottom = top, left = right] = values;
+  return { top, right, bottom, left };
+}
+
+// Canvas font string for the styles, e.g. "bold 12px Arial"
+export function getFont(styles: CellStyles): string {
+  return `${styles.fontWeight} ${styles.fontSize} ${styles.fontFamily}`;
+}
+
+export function getFontSize(styles: CellStyles): number {
+  return parseFloat(styles.fontSize) || 12;
+}
+
+/**
+ * Breaks text into lines no wider than `maxWidth` with the context's current font.
+ * Lines break at spaces and at newlines; a word wider than a line is broken between characters.
+ */
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (ctx.measureText(candidate).width <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      if (ctx.measureText(word).width <= maxWidth) {
+        line = word;
+        continue;
+      }
+      for (const char of word) {
+        if (line && ctx.measureText(line + char).width > maxWidth) {
+          lines.push(line);
+          line = char;
+        } else {
+          line += char;
+        }
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
@@ -1,6 +1,15 @@
 
 export * from './lib/components/sheet/sheet.component';
 export * from './lib/components/sheet-container/sheet-container.component';
+export * from './lib/components/sheet-history/sheet-history.component';
+export * from './lib/components/sheet-workbook/sheet-workbook.component';
 export * from './lib/models/sheet.model';
+export * from './lib/models/cell-store.model';
+export * from './lib/models/workbook.model';
+export * from './lib/models/formula.model';
 export * from './lib/utils/custom-ui.utils';
-export * from './lib/utils/sheet.utils';
\ No newline at end of file
+export * from './lib/utils/sheet.utils';
+export * from './lib/utils/format.utils';
+export * from './lib/utils/parse.utils';
+export * from './lib/utils/style.utils';
+export * from './lib/utils/formula-functions.utils';
\ No newline at end of file